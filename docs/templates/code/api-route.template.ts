@@ -442,9 +442,10 @@ export async function DELETE(request: NextRequest) {
  *    - Use appropriate log levels (info, warn, error)
  *    - Include relevant data but avoid logging sensitive information
  *
- * 9. Rate Limiting (Optional):
- *    - Consider adding rate limiting for public endpoints
- *    - Use Upstash Rate Limit or similar service
+ * 9. Rate Limiting:
+ *    - Public endpoints check a limiter from `@/lib/rate-limit` first
+ *    - Return `rateLimitExceeded(result, requestId)` when not allowed
+ *    - Forms also run `checkBotFields` (honeypot + minimum fill time)
  *
  * 10. CORS (Optional):
  *     - Add CORS headers if API is accessed from external domains
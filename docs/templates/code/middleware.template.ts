@@ -249,7 +249,7 @@ export const config = {
  *    - Use Report-Only mode first to monitor violations
  *
  * 4. Additional Security:
- *    - Add rate limiting for API routes (consider Upstash Rate Limit)
+ *    - Rate limiting lives in the API routes (see src/lib/rate-limit)
  *    - Implement CORS headers for API routes if needed
  *    - Consider adding request logging/monitoring
  *
@@ -1,6 +1,51 @@
+const { execSync } = require("node:child_process");
+const { version } = require("./package.json");
+
+/**
+ * Read a git value at build time. Vercel provides the commit and branch as
+ * env vars; local builds fall back to git, then to "unknown".
+ */
+function git(command, fallback) {
+  if (fallback) return fallback;
+  try {
+    return execSync(`git ${command}`, { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return "unknown";
+  }
+}
+
+// Baked into the bundle so /api/version reports the revision that was built.
+const buildInfo = {
+  NEXT_PUBLIC_APP_VERSION: version,
+  NEXT_PUBLIC_BUILD_SHA: git(
+    "rev-parse HEAD",
+    process.env.VERCEL_GIT_COMMIT_SHA,
+  ),
+  NEXT_PUBLIC_BUILD_BRANCH: git(
+    "rev-parse --abbrev-ref HEAD",
+    process.env.VERCEL_GIT_COMMIT_REF,
+  ),
+  NEXT_PUBLIC_BUILD_TIME: new Date().toISOString(),
+  NEXT_PUBLIC_DEPLOY_ENV: process.env.VERCEL_ENV || "development",
+};
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  env: buildInfo,
+  // Pages render per request (see src/app/layout.tsx), so the content they
+  // read at runtime has to ship with the server functions. Every page's
+  // footer links to the legal documents.
+  outputFileTracingIncludes: {
+    "/[locale]/**": ["./content/legal/**/*"],
+    "/_not-found": ["./content/legal/**/*"],
+    "/api/vitals": ["./content/blog/**/*", "./content/legal/**/*"],
+    "/[locale]/blog/**": ["./content/blog/**/*"],
+    "/{feed.xml,atom.xml,feed.json}": ["./content/blog/**/*"],
+    "/products/[slug]/*": ["./content/blog/**/*"],
+  },
 };
 
 module.exports = nextConfig;
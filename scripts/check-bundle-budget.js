@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Fail when a route's first-load JavaScript exceeds its budget
+ * Usage: npm run build && node scripts/check-bundle-budget.js
+ *
+ * Budgets (gzipped KB) live in bundle-budget.json. Routes without their own
+ * entry use "default".
+ */
+
+const fs = require('fs')
+const path = require('path')
+const { measureBundle } = require('./measure-bundle')
+
+const budget = JSON.parse(
+  fs.readFileSync(path.join(process.cwd(), 'bundle-budget.json'), 'utf8')
+)
+
+let metrics
+try {
+  metrics = measureBundle()
+} catch (error) {
+  console.error(`❌ ${error.message}`)
+  process.exit(1)
+}
+
+console.log('\n📦 Bundle Budget Check (first load JS, gzip)')
+console.log('─────────────────────────────')
+
+let failures = 0
+for (const [route, sizes] of Object.entries(metrics.routes).sort()) {
+  const limitKb = budget.routes?.[route] ?? budget.default
+  const actualKb = sizes.firstLoadJsGzipBytes / 1024
+  const ok = actualKb <= limitKb
+  if (!ok) failures++
+  console.log(
+    `${ok ? '✅' : '❌'} ${route.padEnd(24)} ${actualKb.toFixed(1).padStart(7)} KB / ${limitKb} KB`
+  )
+}
+
+if (failures > 0) {
+  console.log(`\n❌ ${failures} route(s) over budget`)
+  console.log(
+    '💡 Move work into server components or raise the budget in bundle-budget.json deliberately'
+  )
+  process.exit(1)
+}
+
+console.log('\n✅ All routes within budget')
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Compare two measure-bundle.js outputs
+ * Usage: node scripts/compare-metrics.js metrics-main.json metrics-pr.json
+ */
+
+const fs = require('fs')
+
+const [basePath, headPath] = process.argv.slice(2)
+
+if (!basePath || !headPath) {
+  console.error(
+    'Usage: node scripts/compare-metrics.js <base.json> <head.json>'
+  )
+  process.exit(1)
+}
+
+const base = JSON.parse(fs.readFileSync(basePath, 'utf8'))
+const head = JSON.parse(fs.readFileSync(headPath, 'utf8'))
+
+function kb(bytes) {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+function delta(before, after) {
+  if (before === undefined) return 'new'
+  if (after === undefined) return 'removed'
+  const diff = after - before
+  const sign = diff > 0 ? '+' : ''
+  const percent =
+    before === 0 ? '' : ` (${sign}${((diff / before) * 100).toFixed(1)}%)`
+  return `${sign}${kb(diff)}${percent}`
+}
+
+const rows = [
+  [
+    'Static assets (.next/static)',
+    kb(base.buildDirectory.sizeBytes),
+    kb(head.buildDirectory.sizeBytes),
+    delta(base.buildDirectory.sizeBytes, head.buildDirectory.sizeBytes),
+  ],
+]
+
+const routes = [
+  ...new Set([
+    ...Object.keys(base.routes || {}),
+    ...Object.keys(head.routes || {}),
+  ]),
+].sort()
+
+for (const route of routes) {
+  const before = base.routes?.[route]?.firstLoadJsGzipBytes
+  const after = head.routes?.[route]?.firstLoadJsGzipBytes
+  rows.push([
+    `${route} first load JS (gzip)`,
+    before === undefined ? '-' : kb(before),
+    after === undefined ? '-' : kb(after),
+    delta(before, after),
+  ])
+}
+
+const header = ['Metric', 'main', 'PR', 'Change']
+const widths = header.map((title, column) =>
+  Math.max(title.length, ...rows.map(row => row[column].length))
+)
+const format = row =>
+  row.map((cell, column) => cell.padEnd(widths[column])).join('  ')
+
+console.log(format(header))
+console.log(widths.map(width => '-'.repeat(width)).join('  '))
+rows.forEach(row => console.log(format(row)))
@@ -107,3 +107,43 @@ export_config_vars() {
   export PREVIEW_BRANCH=$(get_config '.environments.preview.branch')
   export PRODUCTION_BRANCH=$(get_config '.environments.production.branch')
 }
+
+# Print p75 Web Vitals per route for two deployments side by side
+# Usage: print_vitals_comparison <preview-url> <production-url>
+print_vitals_comparison() {
+  local filter='.data.routes | to_entries[] | .key as $route | .value | to_entries[] | "\($route) \(.key) \(.value.p75) (n=\(.value.count))"'
+  local label url json
+
+  for label in "Preview" "Production"; do
+    [[ "$label" == "Preview" ]] && url="$1" || url="$2"
+    echo "$label ($url):"
+    if json=$(curl -fs "$url/api/vitals" --max-time 10 2>/dev/null); then
+      echo "$json" | jq -r "$filter" | sed 's/^/   /'
+    else
+      echo "   unavailable"
+    fi
+  done
+}
+
+# Poll <url>/api/version until it reports <expected-sha>
+# Usage: wait_for_deployed_commit <url> <expected-sha> [timeout-seconds]
+wait_for_deployed_commit() {
+  local url="$1"
+  local expected="$2"
+  local timeout="${3:-300}"
+  local elapsed=0
+  local deployed=""
+
+  while (( elapsed < timeout )); do
+    deployed=$(curl -fs "$url/api/version" --max-time 10 2>/dev/null | jq -r '.data.commitSha // empty')
+    if [[ "$deployed" == "$expected" ]]; then
+      echo "✅ $url is serving ${expected:0:7}"
+      return 0
+    fi
+    sleep 10
+    (( elapsed += 10 ))
+  done
+
+  echo "❌ ERROR: $url still serving ${deployed:-unknown} after ${timeout}s (expected $expected)"
+  return 1
+}
@@ -57,8 +57,8 @@ if [[ "$CURRENT_BRANCH" =~ ^feature/ ]]; then
 fi
 
 echo ""
-echo "⏳ Waiting 90 seconds for Vercel deployment..."
-sleep 90
+echo "⏳ Waiting for Vercel to serve $(git rev-parse --short HEAD)..."
+wait_for_deployed_commit "$PREVIEW_URL" "$(git rev-parse HEAD)"
 
 echo ""
 echo "🔍 Verifying deployment..."
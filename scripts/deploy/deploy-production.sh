@@ -33,7 +33,7 @@ fi
 
 # Verify Preview is healthy
 echo "🏥 Verifying Preview environment health..."
-if ! curl -f "$PREVIEW_URL/api/health" --max-time 30 2>/dev/null; then
+if ! curl -f "$PREVIEW_URL/api/health/ready" --max-time 30 2>/dev/null; then
     echo "❌ ERROR: Preview health check failed"
     echo "Fix Preview before deploying to Production"
     exit 1
@@ -41,6 +41,11 @@ fi
 echo "✅ Preview is healthy"
 echo ""
 
+# Real-user performance, from /api/vitals
+echo "📈 Web Vitals p75 (LCP/INP/TTFB/FCP in ms, CLS unitless)"
+print_vitals_comparison "$PREVIEW_URL" "$PRODUCTION_URL"
+echo ""
+
 # Pre-deployment checklist
 echo "════════════════════════════════════════════"
 echo "📋 Production Deployment Checklist"
@@ -14,15 +14,25 @@ echo "════════════════════════
 
 FAILURES=0
 
-echo "1. Health check..."
-if curl -f "$PREVIEW_URL/api/health" --max-time 30 2>/dev/null; then
+echo "1. Health check (readiness)..."
+if curl -f "$PREVIEW_URL/api/health/ready" --max-time 30 2>/dev/null; then
     echo "   ✅ Passed"
 else
     echo "   ❌ Failed"
     ((FAILURES++))
 fi
 
-echo "2. Home page..."
+echo "2. Deployed revision..."
+EXPECTED_SHA="${EXPECTED_SHA:-$(git fetch -q origin "$PREVIEW_BRANCH" 2>/dev/null; git rev-parse "origin/$PREVIEW_BRANCH")}"
+DEPLOYED_SHA=$(curl -fs "$PREVIEW_URL/api/version" --max-time 30 2>/dev/null | jq -r '.data.commitSha // empty')
+if [[ -n "$DEPLOYED_SHA" && "$DEPLOYED_SHA" == "$EXPECTED_SHA" ]]; then
+    echo "   ✅ Passed (${DEPLOYED_SHA:0:7})"
+else
+    echo "   ❌ Failed (deployed: ${DEPLOYED_SHA:-unknown}, expected: $EXPECTED_SHA)"
+    ((FAILURES++))
+fi
+
+echo "3. Home page..."
 if curl -f "$PREVIEW_URL" --max-time 30 2>/dev/null > /dev/null; then
     echo "   ✅ Passed"
 else
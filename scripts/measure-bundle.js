@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+/**
+ * Measure the client bundle produced by `next build`
+ * Usage: node scripts/measure-bundle.js > metrics.json
+ *
+ * Reports the total size of .next/static and, per App Router page, the
+ * JavaScript a first visit downloads (shared root chunks + page chunks).
+ */
+
+const fs = require('fs')
+const path = require('path')
+const zlib = require('zlib')
+
+const BUILD_DIR = path.join(process.cwd(), '.next')
+
+function readJson(file) {
+  const fullPath = path.join(BUILD_DIR, file)
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`${fullPath} not found - run "npm run build" first`)
+  }
+  return JSON.parse(fs.readFileSync(fullPath, 'utf8'))
+}
+
+function directorySize(dir) {
+  if (!fs.existsSync(dir)) return 0
+  return fs.readdirSync(dir, { withFileTypes: true }).reduce((total, entry) => {
+    const entryPath = path.join(dir, entry.name)
+    return (
+      total +
+      (entry.isDirectory()
+        ? directorySize(entryPath)
+        : fs.statSync(entryPath).size)
+    )
+  }, 0)
+}
+
+function fileSizes(files) {
+  return files.reduce(
+    (totals, file) => {
+      const contents = fs.readFileSync(path.join(BUILD_DIR, file))
+      totals.bytes += contents.length
+      totals.gzipBytes += zlib.gzipSync(contents).length
+      return totals
+    },
+    { bytes: 0, gzipBytes: 0 }
+  )
+}
+
+// "/products/[slug]/page" -> "/products/[slug]", "/page" -> "/"
+function routeFromEntry(entry) {
+  return entry.replace(/\/page$/, '') || '/'
+}
+
+function measureBundle() {
+  const buildManifest = readJson('build-manifest.json')
+  const appManifest = readJson('app-build-manifest.json')
+  const rootFiles = buildManifest.rootMainFiles || []
+
+  const routes = {}
+  for (const [entry, files] of Object.entries(appManifest.pages)) {
+    if (!entry.endsWith('/page')) continue
+
+    const jsFiles = [...new Set([...rootFiles, ...files])].filter(file =>
+      file.endsWith('.js')
+    )
+    const sizes = fileSizes(jsFiles)
+    routes[routeFromEntry(entry)] = {
+      firstLoadJsBytes: sizes.bytes,
+      firstLoadJsGzipBytes: sizes.gzipBytes,
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    buildDirectory: {
+      path: '.next/static',
+      sizeBytes: directorySize(path.join(BUILD_DIR, 'static')),
+    },
+    routes,
+  }
+}
+
+module.exports = { measureBundle }
+
+if (require.main === module) {
+  try {
+    console.log(JSON.stringify(measureBundle(), null, 2))
+  } catch (error) {
+    console.error(`❌ ${error.message}`)
+    process.exit(1)
+  }
+}
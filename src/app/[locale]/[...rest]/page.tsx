@@ -0,0 +1,9 @@
+import { notFound } from "next/navigation";
+
+/**
+ * Sends unknown paths under a locale to `[locale]/not-found.tsx`, so they
+ * get the localized page instead of the root one.
+ */
+export default function UnknownPage() {
+  notFound();
+}
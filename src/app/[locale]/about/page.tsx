@@ -0,0 +1,163 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { MilestoneTimeline } from "@/components/about/milestone-timeline";
+import { TeamMemberCard } from "@/components/about/team-member-card";
+import { SectionHeading } from "@/components/landing/section-heading";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { JsonLd } from "@/components/seo/json-ld";
+import {
+  MILESTONES_ARE_PLACEHOLDER,
+  milestones,
+  team,
+  TEAM_IS_PLACEHOLDER,
+} from "@/lib/about";
+import { isLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { products } from "@/lib/products";
+import { organizationJsonLd, personJsonLd } from "@/lib/seo/json-ld";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type AboutPageProps = {
+  params: Promise<{ locale: string }>;
+};
+
+const PRINCIPLES = ["listen", "plain", "trust"] as const;
+
+// The team and history copy is still placeholder, so production `/about`
+// has neither section until confirmed copy lands in src/lib/about.
+const SHOW_PLACEHOLDERS = process.env.NODE_ENV !== "production";
+const SHOW_TEAM = !TEAM_IS_PLACEHOLDER || SHOW_PLACEHOLDERS;
+const SHOW_MILESTONES = !MILESTONES_ARE_PLACEHOLDER || SHOW_PLACEHOLDERS;
+
+export async function generateMetadata({
+  params,
+}: AboutPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    return {};
+  }
+  const { about } = getMessages(locale);
+
+  return buildPageMetadata({
+    title: about.title,
+    description: about.description,
+    path: "/about",
+    locale,
+  });
+}
+
+export default async function AboutPage({ params }: AboutPageProps) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+  const { about } = getMessages(locale);
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <JsonLd
+        data={[
+          organizationJsonLd(products),
+          ...(SHOW_TEAM
+            ? team.map((member) => personJsonLd(member, locale))
+            : []),
+        ]}
+      />
+      <SiteNav locale={locale} />
+
+      {/* Hero Section */}
+      <section className="py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+        <div className="max-w-3xl mx-auto text-center">
+          <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+            {about.eyebrow}
+          </p>
+          <h1 className="mt-2 text-4xl md:text-5xl font-bold text-foreground leading-tight">
+            {about.heading}
+          </h1>
+          <p className="mt-6 text-xl text-muted-foreground">{about.story}</p>
+        </div>
+      </section>
+
+      {/* Philosophy Section */}
+      <section className="py-20 px-6 md:px-12">
+        <div className="max-w-7xl mx-auto">
+          <SectionHeading
+            eyebrow={about.philosophy.eyebrow}
+            title={about.philosophy.title}
+            description={about.philosophy.description}
+          />
+          <div className="grid md:grid-cols-3 gap-8">
+            {PRINCIPLES.map((key) => (
+              <div
+                key={key}
+                className="bg-card text-card-foreground p-6 rounded-lg shadow-md border border-border"
+              >
+                <h3 className="text-xl font-bold text-foreground mb-2">
+                  {about.philosophy[key].title}
+                </h3>
+                <p className="text-muted-foreground">
+                  {about.philosophy[key].description}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {/* Team Section */}
+      {SHOW_TEAM && (
+        <section className="py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+          <div className="max-w-7xl mx-auto">
+            <SectionHeading
+              eyebrow={about.team.eyebrow}
+              title={about.team.title}
+              description={about.team.description}
+            />
+            <div className="flex flex-wrap justify-center gap-8">
+              {team.map((member) => (
+                <TeamMemberCard
+                  key={member.id}
+                  member={member}
+                  locale={locale}
+                />
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Timeline Section */}
+      {SHOW_MILESTONES && (
+        <section className="py-20 px-6 md:px-12">
+          <div className="max-w-3xl mx-auto">
+            <SectionHeading
+              eyebrow={about.timeline.eyebrow}
+              title={about.timeline.title}
+              description={about.timeline.description}
+              className="mb-12"
+            />
+            <MilestoneTimeline milestones={milestones} locale={locale} />
+          </div>
+        </section>
+      )}
+
+      {/* CTA Section */}
+      <section className="py-16 px-6 md:px-12 bg-gradient-to-r from-blue-600 to-purple-600">
+        <div className="max-w-4xl mx-auto text-center">
+          <h2 className="text-3xl font-bold text-white">{about.cta.title}</h2>
+          <Link
+            href={localizePath("/#contact", locale)}
+            className="mt-8 inline-block bg-white text-blue-600 px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium"
+          >
+            {about.cta.button}
+          </Link>
+        </div>
+      </section>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
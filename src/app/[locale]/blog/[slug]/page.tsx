@@ -0,0 +1,121 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { MdxContent } from "@/components/blog/mdx-content";
+import { PostMeta } from "@/components/blog/post-meta";
+import { PostPagination } from "@/components/blog/post-pagination";
+import { TagList } from "@/components/blog/tag-list";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { JsonLd } from "@/components/seo/json-ld";
+import { getAdjacentPosts, getPostBySlug, getPosts } from "@/lib/blog";
+import { feedAlternates } from "@/lib/feeds";
+import { isLocale } from "@/lib/i18n/config";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { getProductBySlug } from "@/lib/products";
+import { blogPostingJsonLd } from "@/lib/seo/json-ld";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type BlogPostPageProps = {
+  params: Promise<{ locale: string; slug: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getPosts().map((post) => ({ slug: post.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: BlogPostPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const post = getPostBySlug(slug);
+
+  if (!post || !isLocale(locale)) {
+    return {};
+  }
+
+  return {
+    ...buildPageMetadata({
+      title: post.title,
+      description: post.summary,
+      path: `/blog/${post.slug}`,
+      locale,
+      type: "article",
+      feeds: feedAlternates(),
+    }),
+    ...(post.draft && { robots: { index: false } }),
+  };
+}
+
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { locale, slug } = await params;
+  const post = getPostBySlug(slug);
+
+  if (!post || !isLocale(locale)) {
+    notFound();
+  }
+
+  const { blog } = getMessages(locale);
+  const product = post.product ? getProductBySlug(post.product) : undefined;
+  const { previous, next } = getAdjacentPosts(post.slug);
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <JsonLd data={blogPostingJsonLd(post, locale)} />
+      <SiteNav locale={locale} />
+
+      <article className="flex-1 py-20 px-6 md:px-12">
+        <div className="max-w-3xl mx-auto">
+          <header>
+            <Link
+              href={localizePath("/blog", locale)}
+              className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide"
+            >
+              &larr; {blog.allPosts}
+            </Link>
+            <h1
+              lang="en"
+              className="mt-4 text-4xl md:text-5xl font-bold text-foreground leading-tight"
+            >
+              {post.title}
+            </h1>
+            <PostMeta post={post} locale={locale} className="mt-6" />
+            {product && (
+              <p className="mt-2 text-sm">
+                <Link
+                  href={localizePath(`/products/${product.slug}`, locale)}
+                  className="text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+                >
+                  {formatMessage(blog.aboutProduct, { product: product.name })}
+                </Link>
+              </p>
+            )}
+            {locale !== "en" && (
+              <p className="mt-4 text-sm text-muted-foreground italic">
+                {blog.englishOnly}
+              </p>
+            )}
+          </header>
+
+          <div lang="en" className="mt-10">
+            <MdxContent source={post.body} locale={locale} />
+          </div>
+
+          <TagList
+            tags={post.tags}
+            locale={locale}
+            label={blog.tags}
+            className="mt-12"
+          />
+
+          <PostPagination previous={previous} next={next} locale={locale} />
+        </div>
+      </article>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { Rss } from "lucide-react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { PostList } from "@/components/blog/post-card";
+import { TagList } from "@/components/blog/tag-list";
+import { SectionHeading } from "@/components/landing/section-heading";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { getPosts, getTags } from "@/lib/blog";
+import { feedAlternates, feedPath } from "@/lib/feeds";
+import { isLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type BlogIndexProps = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: BlogIndexProps): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    return {};
+  }
+  const { blog } = getMessages(locale);
+
+  return buildPageMetadata({
+    title: blog.title,
+    description: blog.description,
+    path: "/blog",
+    feeds: feedAlternates(),
+    locale,
+  });
+}
+
+export default async function BlogIndexPage({ params }: BlogIndexProps) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+  const { blog } = getMessages(locale);
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+
+      <section className="flex-1 py-20 px-6 md:px-12">
+        <div className="max-w-3xl mx-auto">
+          <SectionHeading
+            eyebrow={blog.eyebrow}
+            title={blog.title}
+            description={blog.description}
+            className="mb-8"
+          />
+          <TagList
+            tags={getTags().map(({ tag }) => tag)}
+            locale={locale}
+            label={blog.tags}
+            className="mb-6 justify-center"
+          />
+          <p className="mb-12 text-center text-sm">
+            <a
+              href={feedPath("rss")}
+              className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+            >
+              <Rss className="h-4 w-4" aria-hidden="true" />
+              {blog.feed}
+            </a>
+          </p>
+
+          <PostList posts={getPosts()} locale={locale} />
+        </div>
+      </section>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { PostList } from "@/components/blog/post-card";
+import { SectionHeading } from "@/components/landing/section-heading";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { getPostsByTag, getTags } from "@/lib/blog";
+import { feedAlternates } from "@/lib/feeds";
+import { isLocale } from "@/lib/i18n/config";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type TagPageProps = {
+  params: Promise<{ locale: string; tag: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getTags().map(({ tag }) => ({ tag }));
+}
+
+export async function generateMetadata({
+  params,
+}: TagPageProps): Promise<Metadata> {
+  const { locale, tag } = await params;
+  if (!isLocale(locale) || getPostsByTag(tag).length === 0) {
+    return {};
+  }
+  const { blog } = getMessages(locale);
+
+  return buildPageMetadata({
+    title: formatMessage(blog.tagTitle, { tag }),
+    description: formatMessage(blog.tagDescription, { tag }),
+    path: `/blog/tags/${tag}`,
+    locale,
+    feeds: feedAlternates(),
+  });
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { locale, tag } = await params;
+  const posts = getPostsByTag(tag);
+
+  if (!isLocale(locale) || posts.length === 0) {
+    notFound();
+  }
+  const { blog } = getMessages(locale);
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+
+      <section className="flex-1 py-20 px-6 md:px-12">
+        <div className="max-w-3xl mx-auto">
+          <SectionHeading
+            eyebrow={blog.title}
+            title={formatMessage(blog.tagTitle, { tag })}
+            description={formatMessage(blog.tagDescription, { tag })}
+            className="mb-12"
+          />
+
+          <PostList posts={posts} locale={locale} />
+
+          <p className="mt-12 text-center">
+            <Link
+              href={localizePath("/blog", locale)}
+              className="text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+            >
+              &larr; {blog.allPosts}
+            </Link>
+          </p>
+        </div>
+      </section>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { DocumentShell } from "@/components/layout/document-shell";
+import { LOCALES, isLocale } from "@/lib/i18n/config";
+import { buildLocaleMetadata } from "@/lib/seo/metadata";
+
+type LocaleLayoutProps = {
+  params: Promise<{ locale: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({
+  params,
+}: LocaleLayoutProps): Promise<Metadata> {
+  const { locale } = await params;
+  return isLocale(locale) ? buildLocaleMetadata(locale) : {};
+}
+
+/**
+ * Every page lives under a locale prefix, so this is where `<html lang>` is
+ * rendered. Nothing here depends on the request, which keeps the pages below
+ * it static.
+ */
+export default async function LocaleLayout({
+  children,
+  params,
+}: Readonly<LocaleLayoutProps & { children: React.ReactNode }>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
+  return <DocumentShell locale={locale}>{children}</DocumentShell>;
+}
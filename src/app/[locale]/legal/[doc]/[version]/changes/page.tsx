@@ -0,0 +1,175 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { VersionDiff } from "@/components/legal/version-diff";
+import { isLocale } from "@/lib/i18n/config";
+import { formatDate } from "@/lib/i18n/format";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import {
+  diffVersions,
+  getEarlierVersions,
+  getLegalDocuments,
+  getLegalVersion,
+} from "@/lib/legal";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type LegalChangesPageProps = {
+  params: Promise<{ locale: string; doc: string; version: string }>;
+  searchParams: Promise<{ from?: string | string[] }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getLegalDocuments().flatMap((document) =>
+    document.versions
+      .filter((version) => version.number > 1)
+      .map((version) => ({ doc: document.slug, version: version.version })),
+  );
+}
+
+export async function generateMetadata({
+  params,
+}: LegalChangesPageProps): Promise<Metadata> {
+  const { locale, doc, version: versionId } = await params;
+  const version = getLegalVersion(doc, versionId);
+
+  if (!version || !isLocale(locale)) {
+    return {};
+  }
+  const { legal } = getMessages(locale);
+
+  return {
+    ...buildPageMetadata({
+      title: formatMessage(legal.changesTitle, {
+        title: version.title[locale],
+      }),
+      description: (version.changes ?? version.description)[locale],
+      path: `/legal/${doc}/${version.version}/changes`,
+      locale,
+    }),
+    robots: { index: false },
+  };
+}
+
+/**
+ * What changed in a version. Compares against the version before it by
+ * default; `?from=v1` compares against any earlier version instead.
+ */
+export default async function LegalChangesPage({
+  params,
+  searchParams,
+}: LegalChangesPageProps) {
+  const { locale, doc, version: versionId } = await params;
+  const { from: fromId } = await searchParams;
+  const version = getLegalVersion(doc, versionId);
+  const earlier = getEarlierVersions(doc, versionId);
+  const from =
+    fromId === undefined
+      ? earlier[0]
+      : earlier.find((candidate) => candidate.version === fromId);
+
+  if (!version || !from || !isLocale(locale)) {
+    notFound();
+  }
+
+  const { legal } = getMessages(locale);
+  const diff = diffVersions(from, version);
+  const changesPath = `/legal/${doc}/${version.version}/changes`;
+  const linkClassName =
+    "text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors";
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+
+      <article className="flex-1 py-20 px-6 md:px-12">
+        <div className="max-w-3xl mx-auto">
+          <header>
+            <Link
+              href={localizePath(`/legal/${doc}/${version.version}`, locale)}
+              className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide"
+            >
+              &larr;{" "}
+              {formatMessage(legal.backToVersion, { number: version.number })}
+            </Link>
+            <h1 className="mt-4 text-4xl md:text-5xl font-bold text-foreground leading-tight">
+              {formatMessage(legal.changesTitle, {
+                title: version.title[locale],
+              })}
+            </h1>
+            <p className="mt-6 text-xl text-muted-foreground">
+              {formatMessage(legal.changesDescription, {
+                title: version.title[locale],
+                from: from.number,
+                to: version.number,
+              })}
+            </p>
+            <p className="mt-4 flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+              <time dateTime={from.effectiveDate.toISOString().slice(0, 10)}>
+                {formatDate(from.effectiveDate, locale)}
+              </time>
+              <span aria-hidden="true">&rarr;</span>
+              <time dateTime={version.effectiveDate.toISOString().slice(0, 10)}>
+                {formatDate(version.effectiveDate, locale)}
+              </time>
+              <span aria-hidden="true">·</span>
+              <span>
+                {formatMessage(legal.changeCount, {
+                  added: diff.addedWords,
+                  removed: diff.removedWords,
+                })}
+              </span>
+            </p>
+            {from.number === version.number - 1 && version.changes && (
+              <p className="mt-6 text-lg text-foreground">
+                {version.changes[locale]}
+              </p>
+            )}
+          </header>
+
+          {earlier.length > 1 && (
+            <nav
+              aria-label={legal.compareWith}
+              className="mt-8 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm"
+            >
+              <span className="text-muted-foreground">{legal.compareWith}</span>
+              {earlier.map((candidate) =>
+                candidate.version === from.version ? (
+                  <span
+                    key={candidate.version}
+                    aria-current="page"
+                    className="font-semibold text-foreground"
+                  >
+                    {formatMessage(legal.version, {
+                      number: candidate.number,
+                    })}
+                  </span>
+                ) : (
+                  <Link
+                    key={candidate.version}
+                    href={`${localizePath(changesPath, locale)}?from=${candidate.version}`}
+                    className={linkClassName}
+                  >
+                    {formatMessage(legal.version, {
+                      number: candidate.number,
+                    })}
+                  </Link>
+                ),
+              )}
+            </nav>
+          )}
+
+          <div className="mt-10">
+            <VersionDiff diff={diff} locale={locale} />
+          </div>
+        </div>
+      </article>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { LegalVersionView } from "@/components/legal/legal-version";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { isLocale } from "@/lib/i18n/config";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import {
+  getLegalDocument,
+  getLegalDocuments,
+  getLegalVersion,
+} from "@/lib/legal";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type LegalVersionPageProps = {
+  params: Promise<{ locale: string; doc: string; version: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getLegalDocuments().flatMap((document) =>
+    document.versions.map((version) => ({
+      doc: document.slug,
+      version: version.version,
+    })),
+  );
+}
+
+/**
+ * The current version points search engines at `/legal/[doc]`; earlier
+ * versions stay reachable but aren't indexed.
+ */
+export async function generateMetadata({
+  params,
+}: LegalVersionPageProps): Promise<Metadata> {
+  const { locale, doc, version: versionId } = await params;
+  const document = getLegalDocument(doc);
+  const version = getLegalVersion(doc, versionId);
+
+  if (!document || !version || !isLocale(locale)) {
+    return {};
+  }
+
+  const isCurrent = version.version === document.current.version;
+  const { legal } = getMessages(locale);
+
+  return {
+    ...buildPageMetadata({
+      title: `${version.title[locale]} (${formatMessage(legal.version, {
+        number: version.number,
+      })})`,
+      description: version.description[locale],
+      path: isCurrent
+        ? `/legal/${document.slug}`
+        : `/legal/${document.slug}/${version.version}`,
+      locale,
+    }),
+    ...(!isCurrent && { robots: { index: false } }),
+  };
+}
+
+export default async function LegalVersionPage({
+  params,
+}: LegalVersionPageProps) {
+  const { locale, doc, version: versionId } = await params;
+  const document = getLegalDocument(doc);
+  const version = getLegalVersion(doc, versionId);
+
+  if (!document || !version || !isLocale(locale)) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+      <LegalVersionView document={document} version={version} locale={locale} />
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { LegalVersionView } from "@/components/legal/legal-version";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { isLocale } from "@/lib/i18n/config";
+import { getLegalDocument, getLegalDocuments } from "@/lib/legal";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type LegalDocumentPageProps = {
+  params: Promise<{ locale: string; doc: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getLegalDocuments().map((document) => ({ doc: document.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: LegalDocumentPageProps): Promise<Metadata> {
+  const { locale, doc } = await params;
+  const document = getLegalDocument(doc);
+
+  if (!document || !isLocale(locale)) {
+    return {};
+  }
+
+  return buildPageMetadata({
+    title: document.current.title[locale],
+    description: document.current.description[locale],
+    path: `/legal/${document.slug}`,
+    locale,
+  });
+}
+
+export default async function LegalDocumentPage({
+  params,
+}: LegalDocumentPageProps) {
+  const { locale, doc } = await params;
+  const document = getLegalDocument(doc);
+
+  if (!document || !isLocale(locale)) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+      <LegalVersionView
+        document={document}
+        version={document.current}
+        locale={locale}
+      />
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { LocalizedView } from "@/components/i18n/localized-view";
+import { NotFoundContent } from "@/components/layout/not-found-content";
+
+/**
+ * Not-found boundaries don't get params, and reading the locale from the
+ * request would make every page under `[locale]` render on demand, since
+ * Next renders this boundary along with each of them.
+ */
+export default function LocaleNotFound() {
+  return (
+    <LocalizedView
+      views={{
+        en: <NotFoundContent locale="en" />,
+        es: <NotFoundContent locale="es" />,
+      }}
+    />
+  );
+}
@@ -0,0 +1,48 @@
+import { notFound } from "next/navigation";
+import { ContactSection } from "@/components/landing/contact-section";
+import { FeaturesSection } from "@/components/landing/features-section";
+import { HeroSection } from "@/components/landing/hero-section";
+import { ProductsSection } from "@/components/landing/products-section";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { JsonLd } from "@/components/seo/json-ld";
+import { isLocale } from "@/lib/i18n/config";
+import { products } from "@/lib/products";
+import {
+  organizationJsonLd,
+  softwareApplicationJsonLd,
+} from "@/lib/seo/json-ld";
+
+/**
+ * Server-rendered landing page. Only the nav menu, the signup dialog and the
+ * contact form ship client JavaScript.
+ */
+export default async function IntensityMagicLanding({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <JsonLd
+        data={[
+          organizationJsonLd(products),
+          ...products.map((product) =>
+            softwareApplicationJsonLd(product, locale),
+          ),
+        ]}
+      />
+      <SiteNav locale={locale} />
+      <HeroSection products={products} locale={locale} />
+      <ProductsSection products={products} locale={locale} />
+      <FeaturesSection locale={locale} />
+      <ContactSection locale={locale} />
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
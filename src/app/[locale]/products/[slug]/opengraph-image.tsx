@@ -0,0 +1,38 @@
+import { notFound } from "next/navigation";
+import { LOCALES, isLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { getProductBySlug, products } from "@/lib/products";
+import {
+  OG_IMAGE_CONTENT_TYPE,
+  OG_IMAGE_SIZE,
+  renderOgImage,
+} from "@/lib/seo/og-image";
+
+export const alt = "Product overview";
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+// Image routes don't inherit the `[locale]` layout's params, so list both.
+export function generateStaticParams() {
+  return LOCALES.flatMap((locale) =>
+    products.map((product) => ({ locale, slug: product.slug })),
+  );
+}
+
+export default async function ProductOpengraphImage({
+  params,
+}: {
+  params: Promise<{ locale: string; slug: string }>;
+}) {
+  const { locale, slug } = await params;
+  const product = getProductBySlug(slug);
+  if (!product || !isLocale(locale)) {
+    notFound();
+  }
+
+  return renderOgImage({
+    title: product.name,
+    tagline: product.tagline[locale],
+    eyebrow: getMessages(locale).products.status[product.status],
+  });
+}
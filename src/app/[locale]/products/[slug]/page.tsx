@@ -0,0 +1,161 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { ProductIcon } from "@/components/products/product-icon";
+import { JsonLd } from "@/components/seo/json-ld";
+import { outboundProductAttributes } from "@/lib/analytics/attributes";
+import { feedAlternates } from "@/lib/feeds";
+import { isLocale } from "@/lib/i18n/config";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { getProductBySlug, products } from "@/lib/products";
+import { softwareApplicationJsonLd } from "@/lib/seo/json-ld";
+import { buildPageMetadata } from "@/lib/seo/metadata";
+
+type ProductPageProps = {
+  params: Promise<{ locale: string; slug: string }>;
+};
+
+export function generateStaticParams() {
+  return products.map((product) => ({ slug: product.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: ProductPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const product = getProductBySlug(slug);
+
+  if (!product || !isLocale(locale)) {
+    return {};
+  }
+
+  return buildPageMetadata({
+    title: product.name,
+    description: `${product.tagline[locale]}. ${product.description[locale]}`,
+    path: `/products/${product.slug}`,
+    locale,
+    feeds: feedAlternates(product),
+  });
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { locale, slug } = await params;
+  const product = getProductBySlug(slug);
+
+  if (!product || !isLocale(locale)) {
+    notFound();
+  }
+
+  const messages = getMessages(locale);
+  const copy = messages.productPage;
+  const name = { name: product.name };
+  const ctaLabel = formatMessage(
+    product.status === "coming-soon" ? copy.preview : copy.visit,
+    name,
+  );
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <JsonLd data={softwareApplicationJsonLd(product, locale)} />
+      <SiteNav locale={locale} />
+
+      {/* Hero Section */}
+      <section className="py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+        <div className="max-w-4xl mx-auto text-center">
+          <div className="flex justify-center mb-6">
+            <ProductIcon icon={product.icon} accent={product.accent} />
+          </div>
+          {product.status !== "live" && (
+            <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+              {messages.products.status[product.status]}
+            </p>
+          )}
+          <h1 className="mt-2 text-4xl md:text-5xl font-bold text-foreground leading-tight">
+            {product.name}
+          </h1>
+          <p className="mt-4 text-2xl bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent font-semibold">
+            {product.tagline[locale]}
+          </p>
+          <p className="mt-6 text-xl text-muted-foreground">
+            {product.description[locale]}
+          </p>
+          <div className="mt-10">
+            <a
+              href={product.url}
+              {...outboundProductAttributes(product.slug)}
+              className="inline-block bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium"
+            >
+              {ctaLabel}
+            </a>
+          </div>
+        </div>
+      </section>
+
+      {/* Features Section */}
+      <section className="py-20 px-6 md:px-12">
+        <div className="max-w-7xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground text-center mb-16">
+            {formatMessage(copy.features, name)}
+          </h2>
+          <div className="grid md:grid-cols-3 gap-8">
+            {product.features.map((feature) => (
+              <div
+                key={feature.title[locale]}
+                className="bg-card text-card-foreground p-6 rounded-lg shadow-md border border-border"
+              >
+                <h3 className="text-xl font-bold text-foreground mb-2">
+                  {feature.title[locale]}
+                </h3>
+                <p className="text-muted-foreground">
+                  {feature.description[locale]}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {/* FAQ Section */}
+      {product.faq.length > 0 && (
+        <section className="py-20 px-6 md:px-12">
+          <div className="max-w-3xl mx-auto">
+            <h2 className="text-3xl md:text-4xl font-bold text-foreground text-center mb-12">
+              {copy.faq}
+            </h2>
+            <dl className="space-y-8">
+              {product.faq.map((item) => (
+                <div key={item.question[locale]}>
+                  <dt className="text-lg font-semibold text-foreground">
+                    {item.question[locale]}
+                  </dt>
+                  <dd className="mt-2 text-muted-foreground">
+                    {item.answer[locale]}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </section>
+      )}
+
+      {/* CTA Section */}
+      <section className="py-16 px-6 md:px-12 bg-gradient-to-r from-blue-600 to-purple-600">
+        <div className="max-w-4xl mx-auto text-center">
+          <h2 className="text-3xl font-bold text-white">
+            {formatMessage(copy.cta, name)}
+          </h2>
+          <a
+            href={product.url}
+            {...outboundProductAttributes(product.slug)}
+            className="mt-8 inline-block bg-white text-blue-600 px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium"
+          >
+            {ctaLabel}
+          </a>
+        </div>
+      </section>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { SiteFooter } from "@/components/layout/site-footer";
+import { SiteNav } from "@/components/layout/site-nav";
+import { isLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+
+/**
+ * Landing pages for `/api/subscribe/confirm` redirects. The copy for each
+ * outcome lives in the `subscribeStatus` messages.
+ */
+const OUTCOMES = ["confirmed", "expired", "invalid"] as const;
+
+type Outcome = (typeof OUTCOMES)[number];
+
+type SubscribeStatusPageProps = {
+  params: Promise<{ locale: string; status: string }>;
+};
+
+function isOutcome(value: string): value is Outcome {
+  return OUTCOMES.includes(value as Outcome);
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return OUTCOMES.map((status) => ({ status }));
+}
+
+export async function generateMetadata({
+  params,
+}: SubscribeStatusPageProps): Promise<Metadata> {
+  const { locale, status } = await params;
+  if (!isLocale(locale)) {
+    return {};
+  }
+  const copy = getMessages(locale).subscribeStatus;
+  return {
+    title: isOutcome(status) ? copy[status].title : copy.fallbackTitle,
+    robots: { index: false },
+  };
+}
+
+export default async function SubscribeStatusPage({
+  params,
+}: SubscribeStatusPageProps) {
+  const { locale, status } = await params;
+  if (!isLocale(locale) || !isOutcome(status)) {
+    notFound();
+  }
+  const messages = getMessages(locale);
+  const outcome = messages.subscribeStatus[status];
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+
+      <section className="flex-1 py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+        <div className="max-w-3xl mx-auto text-center">
+          <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+            {outcome.eyebrow}
+          </p>
+          <h1 className="mt-2 text-4xl md:text-5xl font-bold text-foreground">
+            {outcome.title}
+          </h1>
+          <p className="mt-6 text-xl text-muted-foreground">
+            {outcome.description}
+          </p>
+          <Link
+            href={localizePath("/", locale)}
+            className="mt-10 inline-block bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium"
+          >
+            {messages.common.backHome}
+          </Link>
+        </div>
+      </section>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
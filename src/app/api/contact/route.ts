@@ -0,0 +1,126 @@
+import { type NextRequest } from "next/server";
+import {
+  ApiErrors,
+  HttpStatus,
+  apiError,
+  apiSuccess,
+  validateInput,
+} from "@/lib/api/response";
+import {
+  createContactSubmission,
+  getContactDeliveryAdapter,
+} from "@/lib/contact/delivery";
+import { ContactMessageSchema } from "@/lib/contact/schema";
+import { checkBotFields } from "@/lib/forms/bot-protection";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+const CONTEXT = "API:Contact";
+
+interface ContactResponseData {
+  id: string;
+  receivedAt: string;
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    logger.info("POST request received", { context: CONTEXT, requestId });
+
+    const rateLimit = await rateLimiters.forms.check(request, "contact");
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(
+        "Invalid JSON in request body",
+        HttpStatus.BAD_REQUEST,
+        "INVALID_JSON",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const botCheck = checkBotFields(body);
+    if (!botCheck.passed) {
+      logger.warn("Rejected likely bot submission", {
+        context: CONTEXT,
+        requestId,
+        reason: botCheck.reason,
+      });
+
+      return apiError(
+        "Please take a moment to review the form and try again.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        "SUBMISSION_REJECTED",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const validation = validateInput(ContactMessageSchema, body, requestId);
+
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const submission = createContactSubmission(validation.data, requestId);
+    const adapter = getContactDeliveryAdapter();
+
+    try {
+      await adapter.deliver(submission);
+    } catch (error) {
+      logger.error("Contact message delivery failed", {
+        context: CONTEXT,
+        requestId,
+        adapter: adapter.name,
+        error: error as Error,
+      });
+
+      return apiError(
+        "We couldn't send your message. Please try again later.",
+        HttpStatus.BAD_GATEWAY,
+        "DELIVERY_FAILED",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    logger.info("Contact message delivered", {
+      context: CONTEXT,
+      requestId,
+      adapter: adapter.name,
+      submissionId: submission.id,
+    });
+
+    const response: ContactResponseData = {
+      id: submission.id,
+      receivedAt: submission.receivedAt,
+    };
+
+    return withRateLimitHeaders(
+      apiSuccess(response, HttpStatus.CREATED, requestId),
+      rateLimit,
+    );
+  } catch (error) {
+    logger.error("Unhandled error in POST handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
@@ -0,0 +1,170 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  ApiErrors,
+  HttpStatus,
+  apiError,
+  apiSuccess,
+  validateInput,
+} from "@/lib/api/response";
+import { rateLimitExceeded, rateLimiters } from "@/lib/rate-limit";
+import {
+  LEGACY_REPORT_CONTENT_TYPE,
+  LegacyCspReportSchema,
+  REPORTING_API_CONTENT_TYPE,
+  ReportingApiBatchSchema,
+  fromLegacyReport,
+  fromReportingApiBatch,
+  type CspViolation,
+} from "@/lib/security/csp-report";
+import {
+  getCspViolationStore,
+  type CspViolationSummary,
+} from "@/lib/security/csp-violations";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+const CONTEXT = "API:CspReport";
+
+const DEFAULT_SUMMARY_LIMIT = 20;
+const MAX_SUMMARY_LIMIT = 100;
+
+interface CspSummaryResponseData {
+  store: string;
+  violations: CspViolationSummary[];
+}
+
+/**
+ * Receive CSP violation reports from browsers. The first report for each
+ * directive/blocked URI pair is logged at `warn`; repeats only bump its count.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const rateLimit = await rateLimiters.reports.check(request, "csp-report");
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    const contentType = request.headers.get("content-type") ?? "";
+    const isLegacy = contentType.startsWith(LEGACY_REPORT_CONTENT_TYPE);
+    const isReportingApi = contentType.startsWith(REPORTING_API_CONTENT_TYPE);
+
+    if (!isLegacy && !isReportingApi) {
+      return apiError(
+        `Expected ${LEGACY_REPORT_CONTENT_TYPE} or ${REPORTING_API_CONTENT_TYPE}`,
+        HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+        "UNSUPPORTED_MEDIA_TYPE",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(
+        "Invalid JSON in request body",
+        HttpStatus.BAD_REQUEST,
+        "INVALID_JSON",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    let violations: CspViolation[];
+    if (isLegacy) {
+      const validation = validateInput(LegacyCspReportSchema, body, requestId);
+      if (!validation.success) {
+        return validation.response;
+      }
+      violations = [fromLegacyReport(validation.data)];
+    } else {
+      const validation = validateInput(
+        ReportingApiBatchSchema,
+        body,
+        requestId,
+      );
+      if (!validation.success) {
+        return validation.response;
+      }
+      violations = fromReportingApiBatch(validation.data);
+    }
+
+    const store = getCspViolationStore();
+    for (const violation of violations) {
+      const data = { context: CONTEXT, requestId, ...violation };
+      if (await store.record(violation)) {
+        logger.warn("CSP violation", data);
+      } else {
+        logger.debug("Repeated CSP violation", data);
+      }
+    }
+
+    return new NextResponse(null, { status: HttpStatus.NO_CONTENT });
+  } catch (error) {
+    logger.error("Unhandled error in POST handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
+
+/**
+ * Compare digests so the check takes the same time whatever the input.
+ */
+function tokenMatches(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Top violations by count. Requires `Authorization: Bearer <CSP_REPORT_TOKEN>`
+ * outside development; without a configured token the summary is disabled
+ * in production.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const token = process.env.CSP_REPORT_TOKEN;
+    const authorization = request.headers.get("authorization") ?? "";
+    const provided = authorization.replace(/^Bearer\s+/i, "");
+
+    if (
+      token
+        ? !tokenMatches(provided, token)
+        : process.env.NODE_ENV !== "development"
+    ) {
+      return ApiErrors.unauthorized(requestId);
+    }
+
+    const requested = Number(request.nextUrl.searchParams.get("limit"));
+    const limit =
+      Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_SUMMARY_LIMIT)
+        : DEFAULT_SUMMARY_LIMIT;
+
+    const store = getCspViolationStore();
+    const response: CspSummaryResponseData = {
+      store: store.name,
+      violations: await store.top(limit),
+    };
+
+    return apiSuccess(response, HttpStatus.OK, requestId);
+  } catch (error) {
+    logger.error("Unhandled error in GET handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  ApiErrors,
+  HttpStatus,
+  apiError,
+  validateInput,
+} from "@/lib/api/response";
+import { hasOptOutHeaders } from "@/lib/analytics/privacy";
+import {
+  CONSENT_COOKIE,
+  hasConsent,
+  parseConsentCookie,
+} from "@/lib/consent/consent";
+import { AnalyticsBatchSchema } from "@/lib/analytics/schema";
+import { getAnalyticsStore } from "@/lib/analytics/store";
+import { getDeviceClass, hashVisitor } from "@/lib/analytics/visitor";
+import { getClientIp, rateLimitExceeded, rateLimiters } from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+const CONTEXT = "API:Events";
+
+function noContent() {
+  return new NextResponse(null, { status: HttpStatus.NO_CONTENT });
+}
+
+/**
+ * Collect analytics beacons. Requests without analytics consent, carrying DNT
+ * or GPC, or from bots are accepted and discarded. The client IP is only used
+ * to derive the daily visitor hash.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const rateLimit = await rateLimiters.reports.check(request, "events");
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    const consent = parseConsentCookie(
+      request.cookies.get(CONSENT_COOKIE)?.value,
+    );
+    if (
+      hasOptOutHeaders(request.headers) ||
+      !hasConsent(consent, "analytics")
+    ) {
+      return noContent();
+    }
+
+    const userAgent = request.headers.get("user-agent") ?? "";
+    const deviceClass = getDeviceClass(userAgent);
+    if (deviceClass === "bot") {
+      return noContent();
+    }
+
+    // sendBeacon posts strings as text/plain, so don't insist on JSON.
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return apiError(
+        "Invalid JSON in request body",
+        HttpStatus.BAD_REQUEST,
+        "INVALID_JSON",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const validation = validateInput(AnalyticsBatchSchema, body, requestId);
+
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const receivedAt = new Date().toISOString();
+    const visitorId = hashVisitor(getClientIp(request), userAgent);
+    const store = getAnalyticsStore();
+
+    await store.record(
+      validation.data.events.map((event) => ({
+        ...event,
+        receivedAt,
+        visitorId,
+        deviceClass,
+      })),
+    );
+
+    return noContent();
+  } catch (error) {
+    logger.error("Unhandled error in POST handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
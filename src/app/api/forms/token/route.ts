@@ -0,0 +1,32 @@
+import { type NextRequest } from "next/server";
+import { HttpStatus, apiSuccess } from "@/lib/api/response";
+import {
+  createFormToken,
+  type FormTokenData,
+} from "@/lib/forms/bot-protection";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Issue a form token. Public forms fetch one when they mount and send it
+ * back on submit, so their minimum fill time is measured from here.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  const rateLimit = await rateLimiters.reads.check(request, "form-token");
+  if (!rateLimit.allowed) {
+    return rateLimitExceeded(rateLimit, requestId);
+  }
+
+  const data: FormTokenData = { token: createFormToken() };
+  const response = apiSuccess(data, HttpStatus.OK, requestId);
+  response.headers.set("Cache-Control", "no-store");
+  return withRateLimitHeaders(response, rateLimit);
+}
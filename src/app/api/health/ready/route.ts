@@ -0,0 +1,25 @@
+import { type NextRequest } from "next/server";
+import { healthRegistry } from "@/lib/health";
+import { respondWithHealth } from "@/lib/health/respond";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Readiness: liveness checks plus configuration and downstream dependencies.
+ */
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimiters.reads.check(request, "health-ready");
+  if (!rateLimit.allowed) {
+    return rateLimitExceeded(rateLimit);
+  }
+
+  return withRateLimitHeaders(
+    await respondWithHealth(healthRegistry, "readiness"),
+    rateLimit,
+  );
+}
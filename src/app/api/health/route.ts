@@ -1,11 +1,25 @@
-import { NextResponse } from "next/server";
+import { type NextRequest } from "next/server";
+import { healthRegistry } from "@/lib/health";
+import { respondWithHealth } from "@/lib/health/respond";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
 
-export async function GET() {
-  return NextResponse.json(
-    {
-      status: "ok",
-      timestamp: new Date().toISOString(),
-    },
-    { status: 200 },
+export const dynamic = "force-dynamic";
+
+/**
+ * Liveness: is the process up and serving requests.
+ */
+export async function GET(request: NextRequest) {
+  const rateLimit = await rateLimiters.reads.check(request, "health");
+  if (!rateLimit.allowed) {
+    return rateLimitExceeded(rateLimit);
+  }
+
+  return withRateLimitHeaders(
+    await respondWithHealth(healthRegistry, "liveness"),
+    rateLimit,
   );
 }
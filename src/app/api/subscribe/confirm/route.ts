@@ -0,0 +1,98 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ApiErrors } from "@/lib/api/response";
+import { rateLimitExceeded, rateLimiters } from "@/lib/rate-limit";
+import { getSubscriberStore } from "@/lib/subscribe/store";
+import { verifyConfirmationToken } from "@/lib/subscribe/token";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+const CONTEXT = "API:SubscribeConfirm";
+
+type ConfirmOutcome = "confirmed" | "expired" | "invalid";
+
+/**
+ * Confirmation links are opened from an email, so every outcome redirects to
+ * a human-readable page rather than returning JSON.
+ */
+function redirectTo(request: NextRequest, outcome: ConfirmOutcome) {
+  return NextResponse.redirect(
+    new URL(`/subscribe/${outcome}`, request.nextUrl.origin),
+    303,
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    logger.info("GET request received", { context: CONTEXT, requestId });
+
+    const rateLimit = await rateLimiters.links.check(
+      request,
+      "subscribe-confirm",
+    );
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      return redirectTo(request, "invalid");
+    }
+
+    const verification = verifyConfirmationToken(token);
+    if (!verification.valid) {
+      logger.warn("Rejected confirmation token", {
+        context: CONTEXT,
+        requestId,
+        reason: verification.reason,
+      });
+      return redirectTo(request, verification.reason);
+    }
+
+    const store = getSubscriberStore();
+    const subscriber = await store.findById(verification.subscriberId);
+    if (!subscriber) {
+      logger.warn("Confirmation token for unknown subscriber", {
+        context: CONTEXT,
+        requestId,
+        subscriberId: verification.subscriberId,
+      });
+      return redirectTo(request, "invalid");
+    }
+
+    // The token carries the products it confirms: the signup's, or those
+    // a confirmed subscriber asked to add. Opening a link twice is harmless.
+    const added = verification.products.filter(
+      (slug) => !subscriber.products.includes(slug),
+    );
+
+    if (subscriber.status !== "confirmed" || added.length > 0) {
+      const now = new Date().toISOString();
+      await store.save({
+        ...subscriber,
+        products: [...subscriber.products, ...added],
+        status: "confirmed",
+        confirmedAt: subscriber.confirmedAt ?? now,
+        updatedAt: now,
+      });
+
+      logger.info("Subscription confirmed", {
+        context: CONTEXT,
+        requestId,
+        store: store.name,
+        subscriberId: subscriber.id,
+        addedProducts: added.length,
+      });
+    }
+
+    return redirectTo(request, "confirmed");
+  } catch (error) {
+    logger.error("Unhandled error in GET handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
@@ -0,0 +1,200 @@
+import { randomUUID } from "node:crypto";
+import { type NextRequest } from "next/server";
+import {
+  ApiErrors,
+  HttpStatus,
+  apiError,
+  apiSuccess,
+  validateInput,
+  type ValidationErrorDetails,
+} from "@/lib/api/response";
+import { getProductBySlug } from "@/lib/products";
+import {
+  getConfirmationSender,
+  type ConfirmationMessage,
+} from "@/lib/subscribe/confirmation";
+import { SubscribeRequestSchema } from "@/lib/subscribe/schema";
+import { getSubscriberStore, type Subscriber } from "@/lib/subscribe/store";
+import { createConfirmationToken } from "@/lib/subscribe/token";
+import { checkBotFields } from "@/lib/forms/bot-protection";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+const CONTEXT = "API:Subscribe";
+
+interface SubscribeResponseData {
+  /** The address as submitted, never the stored record's. */
+  email: string;
+}
+
+/**
+ * Start a double opt-in signup. New and still-pending subscribers get a
+ * confirmation link. Confirmed subscribers are never changed here: new
+ * products go into a confirmation link instead and are only added once it
+ * is opened, so knowing an address isn't enough to change its subscription.
+ * The response is the same either way so the endpoint can't be used to check
+ * whether an address is subscribed.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    logger.info("POST request received", { context: CONTEXT, requestId });
+
+    const rateLimit = await rateLimiters.forms.check(request, "subscribe");
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(
+        "Invalid JSON in request body",
+        HttpStatus.BAD_REQUEST,
+        "INVALID_JSON",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const botCheck = checkBotFields(body);
+    if (!botCheck.passed) {
+      logger.warn("Rejected likely bot submission", {
+        context: CONTEXT,
+        requestId,
+        reason: botCheck.reason,
+      });
+
+      return apiError(
+        "Please take a moment to review the form and try again.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        "SUBMISSION_REJECTED",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const validation = validateInput(SubscribeRequestSchema, body, requestId);
+
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const { email, products } = validation.data;
+    const unknown = products.filter((slug) => !getProductBySlug(slug));
+    if (unknown.length > 0) {
+      const details: ValidationErrorDetails = {
+        issues: unknown.map((slug) => ({
+          field: "products",
+          message: `Unknown product: ${slug}`,
+          code: "invalid_enum_value",
+        })),
+      };
+      return ApiErrors.validationError(details, requestId);
+    }
+
+    const store = getSubscriberStore();
+    const now = new Date().toISOString();
+    const existing = await store.findByEmail(email);
+    let subscriber: Subscriber;
+    let confirm: ConfirmationMessage["kind"] | null;
+    let confirmProducts: string[];
+
+    if (existing?.status === "confirmed") {
+      subscriber = existing;
+      confirmProducts = [...new Set(products)].filter(
+        (slug) => !existing.products.includes(slug),
+      );
+      confirm = confirmProducts.length > 0 ? "update" : null;
+    } else {
+      subscriber = existing
+        ? {
+            ...existing,
+            products: [...new Set([...existing.products, ...products])],
+            updatedAt: now,
+          }
+        : {
+            id: randomUUID(),
+            email,
+            products: [...new Set(products)],
+            status: "pending",
+            createdAt: now,
+            updatedAt: now,
+          };
+      await store.save(subscriber);
+      confirm = "signup";
+      confirmProducts = subscriber.products;
+    }
+
+    if (confirm) {
+      const confirmUrl = new URL(
+        "/api/subscribe/confirm",
+        request.nextUrl.origin,
+      );
+      confirmUrl.searchParams.set(
+        "token",
+        createConfirmationToken(subscriber.id, confirmProducts),
+      );
+      const sender = getConfirmationSender();
+
+      try {
+        await sender.send({
+          kind: confirm,
+          to: subscriber.email,
+          subscriberId: subscriber.id,
+          confirmUrl: confirmUrl.toString(),
+          products: confirmProducts,
+          requestId,
+        });
+      } catch (error) {
+        logger.error("Confirmation delivery failed", {
+          context: CONTEXT,
+          requestId,
+          sender: sender.name,
+          error: error as Error,
+        });
+
+        return apiError(
+          "We couldn't send your confirmation email. Please try again later.",
+          HttpStatus.BAD_GATEWAY,
+          "DELIVERY_FAILED",
+          undefined,
+          requestId,
+          CONTEXT,
+        );
+      }
+    }
+
+    logger.info("Subscription requested", {
+      context: CONTEXT,
+      requestId,
+      store: store.name,
+      subscriberId: subscriber.id,
+      status: subscriber.status,
+      confirmation: confirm,
+    });
+
+    const response: SubscribeResponseData = { email };
+
+    return withRateLimitHeaders(
+      apiSuccess(response, HttpStatus.ACCEPTED, requestId),
+      rateLimit,
+    );
+  } catch (error) {
+    logger.error("Unhandled error in POST handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
@@ -0,0 +1,28 @@
+import { type NextRequest } from "next/server";
+import { HttpStatus, apiSuccess } from "@/lib/api/response";
+import { buildInfo } from "@/lib/build-info";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Which revision is live. Used by the deploy scripts to wait for and verify
+ * a deployment.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  const rateLimit = await rateLimiters.reads.check(request, "version");
+  if (!rateLimit.allowed) {
+    return rateLimitExceeded(rateLimit, requestId);
+  }
+
+  const response = apiSuccess(buildInfo, HttpStatus.OK, requestId);
+  response.headers.set("Cache-Control", "no-store");
+  return withRateLimitHeaders(response, rateLimit);
+}
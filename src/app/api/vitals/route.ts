@@ -0,0 +1,147 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  ApiErrors,
+  HttpStatus,
+  apiError,
+  apiSuccess,
+  validateInput,
+} from "@/lib/api/response";
+import { hasOptOutHeaders } from "@/lib/analytics/privacy";
+import {
+  CONSENT_COOKIE,
+  hasConsent,
+  parseConsentCookie,
+} from "@/lib/consent/consent";
+import {
+  rateLimitExceeded,
+  rateLimiters,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit";
+import { DEVICE_CLASSES, type VitalsDeviceClass } from "@/lib/vitals/metrics";
+import { WebVitalsBatchSchema } from "@/lib/vitals/schema";
+import { vitalsRoute } from "@/lib/vitals/routes";
+import { getVitalsStore } from "@/lib/vitals/store";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+const CONTEXT = "API:Vitals";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Collect Web Vitals samples. Like `/api/events`, samples from visitors
+ * without analytics consent, or with DNT or GPC set, are accepted and
+ * discarded. Samples are filed under the unprefixed route and dropped for
+ * pages that aren't in the sitemap.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const rateLimit = await rateLimiters.reports.check(request, "vitals");
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    const consent = parseConsentCookie(
+      request.cookies.get(CONSENT_COOKIE)?.value,
+    );
+    if (
+      hasOptOutHeaders(request.headers) ||
+      !hasConsent(consent, "analytics")
+    ) {
+      return new NextResponse(null, { status: HttpStatus.NO_CONTENT });
+    }
+
+    // sendBeacon posts strings as text/plain, so don't insist on JSON.
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return apiError(
+        "Invalid JSON in request body",
+        HttpStatus.BAD_REQUEST,
+        "INVALID_JSON",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const validation = validateInput(WebVitalsBatchSchema, body, requestId);
+
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const samples = validation.data.metrics.flatMap((sample) => {
+      const route = vitalsRoute(sample.route);
+      return route ? [{ ...sample, route }] : [];
+    });
+    if (samples.length > 0) {
+      await getVitalsStore().record(samples);
+    }
+
+    return new NextResponse(null, { status: HttpStatus.NO_CONTENT });
+  } catch (error) {
+    logger.error("Unhandled error in POST handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
+
+function isDeviceClass(value: string | null): value is VitalsDeviceClass {
+  return (DEVICE_CLASSES as readonly (string | null)[]).includes(value);
+}
+
+/**
+ * p50/p75/p95 per route and metric. `?device=mobile|tablet|desktop`
+ * narrows to one device class. Used by `deploy-production.sh` to compare
+ * preview with production.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = logger.generateRequestId();
+
+  try {
+    const rateLimit = await rateLimiters.reads.check(request, "vitals");
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, requestId);
+    }
+
+    const device = request.nextUrl.searchParams.get("device");
+    if (device !== null && !isDeviceClass(device)) {
+      return apiError(
+        `device must be one of: ${DEVICE_CLASSES.join(", ")}`,
+        HttpStatus.BAD_REQUEST,
+        "INVALID_QUERY",
+        undefined,
+        requestId,
+        CONTEXT,
+      );
+    }
+
+    const store = getVitalsStore();
+    const aggregates = await store.aggregates(
+      device ? { deviceClass: device } : {},
+    );
+
+    const response = apiSuccess(
+      { store: store.name, ...aggregates },
+      HttpStatus.OK,
+      requestId,
+    );
+    response.headers.set("Cache-Control", "no-store");
+    return withRateLimitHeaders(response, rateLimit);
+  } catch (error) {
+    logger.error("Unhandled error in GET handler", {
+      context: CONTEXT,
+      requestId,
+      error: error as Error,
+    });
+
+    return ApiErrors.internalError(undefined, requestId);
+  }
+}
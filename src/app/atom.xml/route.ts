@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server";
+import { buildFeed, feedResponse } from "@/lib/feeds";
+
+/**
+ * Every blog post as Atom. Per-product variants are served from
+ * `/products/[slug]/atom.xml`.
+ */
+export function GET(request: NextRequest) {
+  return feedResponse(request, "atom", buildFeed());
+}
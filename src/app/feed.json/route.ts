@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server";
+import { buildFeed, feedResponse } from "@/lib/feeds";
+
+/**
+ * Every blog post as JSON Feed 1.1. Per-product variants are served from
+ * `/products/[slug]/feed.json`.
+ */
+export function GET(request: NextRequest) {
+  return feedResponse(request, "json", buildFeed());
+}
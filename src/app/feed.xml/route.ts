@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server";
+import { buildFeed, feedResponse } from "@/lib/feeds";
+
+/**
+ * Every blog post as RSS 2.0. Per-product variants are served from
+ * `/products/[slug]/feed.xml`.
+ */
+export function GET(request: NextRequest) {
+  return feedResponse(request, "rss", buildFeed());
+}
@@ -1,23 +1,19 @@
 import type { Metadata } from "next";
-import { Inter } from "next/font/google";
+import { rootMetadata } from "@/lib/seo/metadata";
 import "./globals.css";
 
-const inter = Inter({ subsets: ["latin"] });
-
-export const metadata: Metadata = {
-  title: "Intensity Magic | Transform Your Potential",
-  description:
-    "Unlock extraordinary results with Intensity Magic. We help you achieve more through focused intensity and strategic execution.",
-};
+export const metadata: Metadata = rootMetadata;
 
+/**
+ * `<html>` and `<body>` are rendered by `[locale]/layout.tsx`, which knows
+ * the locale from its params, and by the not-found page. Reading the locale
+ * (or anything else per request) here would make every page render on
+ * demand instead of at build time.
+ */
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
-    </html>
-  );
+  return children;
 }
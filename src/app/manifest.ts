@@ -0,0 +1,15 @@
+import type { MetadataRoute } from "next";
+import { SITE } from "@/lib/seo/site";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: SITE.name,
+    short_name: SITE.name,
+    description: SITE.description,
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: SITE.colors.from,
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml" }],
+  };
+}
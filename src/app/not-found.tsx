@@ -0,0 +1,15 @@
+import { DocumentShell } from "@/components/layout/document-shell";
+import { NotFoundContent } from "@/components/layout/not-found-content";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+
+/**
+ * Only reached for paths the middleware doesn't localize, such as a missing
+ * file. Sits outside `[locale]`, so it renders its own document.
+ */
+export default function NotFound() {
+  return (
+    <DocumentShell locale={DEFAULT_LOCALE}>
+      <NotFoundContent locale={DEFAULT_LOCALE} />
+    </DocumentShell>
+  );
+}
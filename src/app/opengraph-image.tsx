@@ -0,0 +1,17 @@
+import {
+  OG_IMAGE_CONTENT_TYPE,
+  OG_IMAGE_SIZE,
+  renderOgImage,
+} from "@/lib/seo/og-image";
+import { SITE } from "@/lib/seo/site";
+
+export const alt = SITE.title;
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+export default function OpengraphImage() {
+  return renderOgImage({
+    title: SITE.name,
+    tagline: SITE.tagline,
+  });
+}
@@ -0,0 +1,27 @@
+import type { NextRequest } from "next/server";
+import { HttpStatus } from "@/lib/api/response";
+import { buildFeed, feedResponse } from "@/lib/feeds";
+import { getProductBySlug, products } from "@/lib/products";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return products.map((product) => ({ slug: product.slug }));
+}
+
+/**
+ * Posts about one product as JSON Feed 1.1, for the product's own site to
+ * syndicate.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> },
+) {
+  const { slug } = await params;
+  const product = getProductBySlug(slug);
+  if (!product) {
+    return new Response(null, { status: HttpStatus.NOT_FOUND });
+  }
+
+  return feedResponse(request, "json", buildFeed({ product }));
+}
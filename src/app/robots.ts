@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next";
+import { absoluteUrl, isIndexable } from "@/lib/seo/site";
+
+/**
+ * Preview and local builds disallow everything so they never compete with
+ * production in search results.
+ */
+export default function robots(): MetadataRoute.Robots {
+  if (!isIndexable()) {
+    return { rules: { userAgent: "*", disallow: "/" } };
+  }
+
+  return {
+    rules: { userAgent: "*", allow: "/", disallow: "/api/" },
+    sitemap: absoluteUrl("/sitemap.xml"),
+    host: absoluteUrl("/"),
+  };
+}
@@ -0,0 +1,26 @@
+import type { MetadataRoute } from "next";
+import { LOCALES } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/paths";
+import { hreflangUrls } from "@/lib/seo/metadata";
+import { getSiteRoutes, lastModified } from "@/lib/seo/routes";
+import { absoluteUrl } from "@/lib/seo/site";
+
+/**
+ * One entry per route and locale, each listing every locale as an
+ * `hreflang` alternate.
+ */
+export default function sitemap(): MetadataRoute.Sitemap {
+  const modified = lastModified();
+
+  return getSiteRoutes().flatMap((route) => {
+    const languages = hreflangUrls(route.path);
+
+    return LOCALES.map((locale) => ({
+      url: absoluteUrl(localizePath(route.path, locale)),
+      lastModified: route.lastModified ?? modified,
+      changeFrequency: route.changeFrequency,
+      priority: route.priority,
+      alternates: { languages },
+    }));
+  });
+}
@@ -0,0 +1,36 @@
+import type { Milestone } from "@/lib/about";
+import type { Locale } from "@/lib/i18n/config";
+import { formatYearMonth } from "@/lib/i18n/format";
+
+export function MilestoneTimeline({
+  milestones,
+  locale,
+}: {
+  milestones: readonly Milestone[];
+  locale: Locale;
+}) {
+  return (
+    <ol className="relative border-l-2 border-border ml-3 space-y-10">
+      {milestones.map((milestone) => (
+        <li key={`${milestone.date}-${milestone.title.en}`} className="pl-8">
+          <span
+            aria-hidden="true"
+            className="absolute -left-[9px] mt-1.5 h-4 w-4 rounded-full border-2 border-background bg-gradient-to-br from-blue-600 to-purple-600"
+          />
+          <time
+            dateTime={milestone.date}
+            className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide"
+          >
+            {formatYearMonth(milestone.date, locale)}
+          </time>
+          <h3 className="mt-1 text-xl font-bold text-foreground">
+            {milestone.title[locale]}
+          </h3>
+          <p className="mt-2 text-muted-foreground">
+            {milestone.description[locale]}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,52 @@
+import * as Avatar from "@radix-ui/react-avatar";
+import type { TeamMember } from "@/lib/about";
+import type { Locale } from "@/lib/i18n/config";
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+}
+
+/**
+ * Photo, name, role and bio. Radix Avatar shows the initials until the
+ * photo loads, or instead of it when there is none.
+ */
+export function TeamMemberCard({
+  member,
+  locale,
+}: {
+  member: TeamMember;
+  locale: Locale;
+}) {
+  return (
+    <article
+      id={member.id}
+      className="w-full max-w-sm bg-card text-card-foreground rounded-xl p-8 shadow-lg border border-border text-center"
+    >
+      <Avatar.Root className="mx-auto inline-flex h-24 w-24 items-center justify-center overflow-hidden rounded-full bg-gradient-to-br from-blue-600 to-purple-600 align-middle">
+        {member.avatar && (
+          <Avatar.Image
+            src={member.avatar.src}
+            alt=""
+            className="h-full w-full object-cover"
+          />
+        )}
+        <Avatar.Fallback
+          delayMs={member.avatar ? 600 : 0}
+          className="text-2xl font-bold text-white"
+        >
+          {initials(member.name)}
+        </Avatar.Fallback>
+      </Avatar.Root>
+      <h3 className="mt-6 text-xl font-bold text-foreground">{member.name}</h3>
+      <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+        {member.role[locale]}
+      </p>
+      <p className="mt-4 text-muted-foreground">{member.bio[locale]}</p>
+    </article>
+  );
+}
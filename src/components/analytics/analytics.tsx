@@ -0,0 +1,11 @@
+"use client";
+
+import { useAnalytics } from "@/hooks/use-analytics";
+
+/**
+ * Mounts the first-party analytics listeners once, from `DocumentShell`.
+ */
+export function Analytics() {
+  useAnalytics();
+  return null;
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useReportWebVitals } from "next/web-vitals";
+import { useCallback } from "react";
+import { isWebVitalName, viewportDeviceClass } from "@/lib/vitals/metrics";
+
+const VITALS_ENDPOINT = "/api/vitals";
+
+/**
+ * The path the document was loaded at. Every metric describes that load,
+ * but CLS and INP are only reported when the page is hidden, usually after
+ * client-side navigations have moved the URL on.
+ */
+function loadedPath(): string {
+  const [navigation] = performance.getEntriesByType("navigation");
+  return navigation
+    ? new URL(navigation.name).pathname
+    : window.location.pathname;
+}
+
+/**
+ * Reports LCP, CLS, INP, TTFB and FCP to `/api/vitals` with the route the
+ * page was loaded at and a viewport-based device class. Mounted from
+ * `DocumentShell` behind analytics consent.
+ */
+export function WebVitals() {
+  // Next registers the observers again whenever the callback changes, so it
+  // must stay stable.
+  const report = useCallback<Parameters<typeof useReportWebVitals>[0]>(
+    (metric) => {
+      if (!isWebVitalName(metric.name)) {
+        return;
+      }
+
+      const body = JSON.stringify({
+        metrics: [
+          {
+            name: metric.name,
+            value: metric.value,
+            rating: metric.rating,
+            route: loadedPath(),
+            deviceClass: viewportDeviceClass(window.innerWidth),
+          },
+        ],
+      });
+
+      if (!navigator.sendBeacon?.(VITALS_ENDPOINT, body)) {
+        void fetch(VITALS_ENDPOINT, {
+          method: "POST",
+          body,
+          keepalive: true,
+        }).catch(() => {
+          // Reporting must never surface errors to visitors.
+        });
+      }
+    },
+    [],
+  );
+
+  useReportWebVitals(report);
+
+  return null;
+}
@@ -0,0 +1,86 @@
+import { MDXRemote } from "next-mdx-remote/rsc";
+import Link from "next/link";
+import type { ComponentPropsWithoutRef } from "react";
+import type { Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/paths";
+
+/**
+ * Element styles for post bodies. Site-relative links get the reader's
+ * locale prefix so they don't bounce through the middleware redirect.
+ */
+function mdxComponents(locale: Locale) {
+  return {
+    h2: (props: ComponentPropsWithoutRef<"h2">) => (
+      <h2
+        className="mt-12 mb-4 text-2xl md:text-3xl font-bold text-foreground"
+        {...props}
+      />
+    ),
+    h3: (props: ComponentPropsWithoutRef<"h3">) => (
+      <h3 className="mt-8 mb-3 text-xl font-bold text-foreground" {...props} />
+    ),
+    p: (props: ComponentPropsWithoutRef<"p">) => (
+      <p className="my-5 leading-relaxed" {...props} />
+    ),
+    ul: (props: ComponentPropsWithoutRef<"ul">) => (
+      <ul className="my-5 list-disc space-y-2 pl-6" {...props} />
+    ),
+    ol: (props: ComponentPropsWithoutRef<"ol">) => (
+      <ol className="my-5 list-decimal space-y-2 pl-6" {...props} />
+    ),
+    blockquote: (props: ComponentPropsWithoutRef<"blockquote">) => (
+      <blockquote
+        className="my-6 border-l-4 border-blue-600 pl-4 italic dark:border-blue-400"
+        {...props}
+      />
+    ),
+    strong: (props: ComponentPropsWithoutRef<"strong">) => (
+      <strong className="font-semibold text-foreground" {...props} />
+    ),
+    code: (props: ComponentPropsWithoutRef<"code">) => (
+      <code
+        className="rounded bg-muted px-1.5 py-0.5 font-mono text-sm"
+        {...props}
+      />
+    ),
+    pre: (props: ComponentPropsWithoutRef<"pre">) => (
+      <pre
+        className="my-6 overflow-x-auto rounded-lg border border-border bg-muted p-4 text-sm [&>code]:bg-transparent [&>code]:p-0"
+        {...props}
+      />
+    ),
+    hr: () => <hr className="my-10 border-border" />,
+    a: ({ href = "", children }: ComponentPropsWithoutRef<"a">) => {
+      const className =
+        "text-blue-600 dark:text-blue-400 underline underline-offset-2 hover:text-purple-600 dark:hover:text-purple-400";
+
+      return href.startsWith("/") ? (
+        <Link href={localizePath(href, locale)} className={className}>
+          {children}
+        </Link>
+      ) : (
+        <a
+          href={href}
+          className={className}
+          {...(!href.startsWith("#") && { rel: "noopener noreferrer" })}
+        >
+          {children}
+        </a>
+      );
+    },
+  };
+}
+
+export function MdxContent({
+  source,
+  locale,
+}: {
+  source: string;
+  locale: Locale;
+}) {
+  return (
+    <div className="text-lg text-muted-foreground">
+      <MDXRemote source={source} components={mdxComponents(locale)} />
+    </div>
+  );
+}
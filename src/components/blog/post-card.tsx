@@ -0,0 +1,58 @@
+import Link from "next/link";
+import type { Post } from "@/lib/blog";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { PostMeta } from "./post-meta";
+import { TagList } from "./tag-list";
+
+export function PostCard({ post, locale }: { post: Post; locale: Locale }) {
+  const { blog } = getMessages(locale);
+
+  return (
+    <article className="bg-card text-card-foreground rounded-xl p-8 shadow-lg border border-border hover:shadow-xl transition-shadow">
+      <PostMeta post={post} locale={locale} />
+      <h2 lang="en" className="mt-3 text-2xl font-bold text-foreground">
+        <Link
+          href={localizePath(`/blog/${post.slug}`, locale)}
+          className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+        >
+          {post.title}
+        </Link>
+      </h2>
+      <p lang="en" className="mt-3 text-muted-foreground">
+        {post.summary}
+      </p>
+      <TagList
+        tags={post.tags}
+        locale={locale}
+        label={blog.tags}
+        className="mt-6"
+      />
+    </article>
+  );
+}
+
+export function PostList({
+  posts,
+  locale,
+}: {
+  posts: readonly Post[];
+  locale: Locale;
+}) {
+  if (posts.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground">
+        {getMessages(locale).blog.empty}
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-8">
+      {posts.map((post) => (
+        <PostCard key={post.slug} post={post} locale={locale} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Post } from "@/lib/blog";
+import type { Locale } from "@/lib/i18n/config";
+import { formatDate } from "@/lib/i18n/format";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+
+/**
+ * Date, author and reading time, plus a badge on drafts (which only appear
+ * outside production).
+ */
+export function PostMeta({
+  post,
+  locale,
+  className = "",
+}: {
+  post: Post;
+  locale: Locale;
+  className?: string;
+}) {
+  const { blog } = getMessages(locale);
+
+  return (
+    <p
+      className={`flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground ${className}`}
+    >
+      {post.draft && (
+        <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-semibold uppercase tracking-wide">
+          {blog.draft}
+        </span>
+      )}
+      <time dateTime={post.date.toISOString().slice(0, 10)}>
+        {formatDate(post.date, locale)}
+      </time>
+      <span aria-hidden="true">·</span>
+      <span>{formatMessage(blog.byAuthor, { author: post.author })}</span>
+      <span aria-hidden="true">·</span>
+      <span>
+        {formatMessage(blog.readingTime, {
+          minutes: post.readingTimeMinutes,
+        })}
+      </span>
+    </p>
+  );
+}
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import type { Post } from "@/lib/blog";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+
+/**
+ * Links to the older and newer posts either side of the current one.
+ */
+export function PostPagination({
+  previous,
+  next,
+  locale,
+}: {
+  previous?: Post | undefined;
+  next?: Post | undefined;
+  locale: Locale;
+}) {
+  const { blog } = getMessages(locale);
+
+  if (!previous && !next) {
+    return null;
+  }
+
+  const linkClasses =
+    "block rounded-lg border border-border p-4 hover:bg-accent transition-colors";
+
+  return (
+    <nav
+      aria-label={blog.morePosts}
+      className="mt-16 grid gap-4 border-t border-border pt-8 sm:grid-cols-2"
+    >
+      {previous ? (
+        <Link
+          href={localizePath(`/blog/${previous.slug}`, locale)}
+          rel="prev"
+          className={linkClasses}
+        >
+          <span className="block text-sm text-muted-foreground">
+            &larr; {blog.previous}
+          </span>
+          <span lang="en" className="mt-1 block font-semibold text-foreground">
+            {previous.title}
+          </span>
+        </Link>
+      ) : (
+        <span />
+      )}
+      {next && (
+        <Link
+          href={localizePath(`/blog/${next.slug}`, locale)}
+          rel="next"
+          className={`${linkClasses} sm:text-right`}
+        >
+          <span className="block text-sm text-muted-foreground">
+            {blog.next} &rarr;
+          </span>
+          <span lang="en" className="mt-1 block font-semibold text-foreground">
+            {next.title}
+          </span>
+        </Link>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,34 @@
+import Link from "next/link";
+import type { Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/paths";
+
+export function TagList({
+  tags,
+  locale,
+  label,
+  className = "",
+}: {
+  tags: readonly string[];
+  locale: Locale;
+  label: string;
+  className?: string;
+}) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul aria-label={label} className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            href={localizePath(`/blog/tags/${tag}`, locale)}
+            className="inline-block rounded-full bg-muted px-3 py-1 text-xs font-medium text-muted-foreground hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
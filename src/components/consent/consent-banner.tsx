@@ -0,0 +1,43 @@
+"use client";
+
+import { useConsent } from "@/hooks/use-consent";
+import type { Messages } from "@/lib/i18n/messages";
+
+/**
+ * First-visit prompt. Rejecting is as easy as accepting: both are one click.
+ */
+export function ConsentBanner({ messages }: { messages: Messages["consent"] }) {
+  const { acceptAll, rejectAll, openSettings } = useConsent();
+
+  return (
+    <section
+      aria-label={messages.bannerLabel}
+      className="fixed inset-x-4 bottom-4 z-40 mx-auto max-w-3xl rounded-xl border border-border bg-card text-card-foreground p-6 shadow-xl md:flex md:items-center md:gap-6"
+    >
+      <p className="text-sm text-muted-foreground">{messages.banner}</p>
+      <div className="mt-4 flex shrink-0 flex-wrap gap-2 md:mt-0">
+        <button
+          type="button"
+          onClick={openSettings}
+          className="px-4 py-2 rounded-md text-sm font-medium text-foreground hover:bg-accent transition-colors"
+        >
+          {messages.customize}
+        </button>
+        <button
+          type="button"
+          onClick={rejectAll}
+          className="px-4 py-2 rounded-md border border-input text-sm font-medium text-foreground hover:bg-accent transition-colors"
+        >
+          {messages.rejectAll}
+        </button>
+        <button
+          type="button"
+          onClick={acceptAll}
+          className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-md hover:opacity-90 transition-opacity text-sm font-medium"
+        >
+          {messages.acceptAll}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import * as Dialog from "@radix-ui/react-dialog";
+import { X } from "lucide-react";
+import { useState } from "react";
+import { useConsent } from "@/hooks/use-consent";
+import { CONSENT_CATEGORIES, type ConsentChoices } from "@/lib/consent/consent";
+import type { Messages } from "@/lib/i18n/messages";
+
+/**
+ * Per-category settings, opened from the banner or the footer's
+ * "Privacy settings" link.
+ */
+export function ConsentDialog({
+  open,
+  onOpenChange,
+  messages,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messages: Messages["consent"];
+}) {
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black/40 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-[calc(100%-2rem)] max-w-lg -translate-x-1/2 -translate-y-1/2 rounded-xl border border-border bg-card text-card-foreground p-8 shadow-xl data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95">
+          <div className="flex items-start justify-between gap-4">
+            <Dialog.Title className="text-2xl font-bold text-foreground">
+              {messages.title}
+            </Dialog.Title>
+            <Dialog.Close
+              aria-label={messages.close}
+              className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <X className="h-5 w-5" aria-hidden="true" />
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="mt-2 text-muted-foreground">
+            {messages.description}
+          </Dialog.Description>
+
+          <ConsentForm messages={messages} />
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
+
+/**
+ * Mounted with the dialog content, so the checkboxes start from the saved
+ * choice every time it opens.
+ */
+function ConsentForm({ messages }: { messages: Messages["consent"] }) {
+  const { consent, save } = useConsent();
+  const [choices, setChoices] = useState<ConsentChoices>({
+    analytics: consent?.analytics ?? false,
+    marketing: consent?.marketing ?? false,
+  });
+
+  return (
+    <form
+      className="mt-6 space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        save(choices);
+      }}
+    >
+      {CONSENT_CATEGORIES.map((category) => {
+        const { label, description } = messages.categories[category];
+        const id = `consent-${category}`;
+
+        return (
+          <div key={category} className="flex items-start gap-3">
+            <input
+              id={id}
+              type="checkbox"
+              aria-describedby={`${id}-description`}
+              className="mt-1 h-4 w-4 rounded border-input accent-blue-600"
+              {...(category === "necessary"
+                ? { checked: true, disabled: true }
+                : {
+                    checked: choices[category],
+                    onChange: (event) =>
+                      setChoices((current) => ({
+                        ...current,
+                        [category]: event.target.checked,
+                      })),
+                  })}
+            />
+            <div>
+              <label htmlFor={id} className="font-medium text-foreground">
+                {label}
+                {category === "necessary" && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    {messages.alwaysOn}
+                  </span>
+                )}
+              </label>
+              <p
+                id={`${id}-description`}
+                className="text-sm text-muted-foreground"
+              >
+                {description}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={() => save({ analytics: false, marketing: false })}
+          className="px-4 py-2 rounded-md border border-input text-sm font-medium text-foreground hover:bg-accent transition-colors"
+        >
+          {messages.rejectAll}
+        </button>
+        <button
+          type="submit"
+          className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-md hover:opacity-90 transition-opacity text-sm font-medium"
+        >
+          {messages.save}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useConsent } from "@/hooks/use-consent";
+import type { ConsentCategory } from "@/lib/consent/consent";
+
+/**
+ * Renders `children` only once `category` is granted. Wrap any
+ * non-essential script or embed:
+ *
+ *   <ConsentGate category="marketing">
+ *     <Script src="https://ads.example/tag.js" />
+ *   </ConsentGate>
+ */
+export function ConsentGate({
+  category,
+  children,
+}: {
+  category: ConsentCategory;
+  children: ReactNode;
+}) {
+  const { hasConsent } = useConsent();
+  return hasConsent(category) ? children : null;
+}
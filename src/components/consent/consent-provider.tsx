@@ -0,0 +1,76 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { ConsentContext, type ConsentContextValue } from "@/hooks/use-consent";
+import {
+  createConsentState,
+  hasConsent,
+  readConsentCookie,
+  serializeConsentCookie,
+  type ConsentChoices,
+  type ConsentState,
+} from "@/lib/consent/consent";
+import type { Messages } from "@/lib/i18n/messages";
+import { ConsentBanner } from "./consent-banner";
+import { ConsentDialog } from "./consent-dialog";
+
+/**
+ * Holds the visitor's consent and renders the banner until they choose.
+ * Pages are prerendered, so the cookie is read once mounted; the banner waits
+ * for that so returning visitors never see it flash.
+ */
+export function ConsentProvider({
+  messages,
+  children,
+}: {
+  messages: Messages["consent"];
+  children: ReactNode;
+}) {
+  const [consent, setConsent] = useState<ConsentState | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    setConsent(readConsentCookie(document.cookie));
+    setLoaded(true);
+  }, []);
+
+  const save = useCallback((choices: ConsentChoices) => {
+    const state = createConsentState(choices);
+    document.cookie = serializeConsentCookie(state);
+    setConsent(state);
+    setSettingsOpen(false);
+  }, []);
+
+  const value = useMemo<ConsentContextValue>(
+    () => ({
+      consent,
+      hasConsent: (category) => hasConsent(consent, category),
+      acceptAll: () => save({ analytics: true, marketing: true }),
+      rejectAll: () => save({ analytics: false, marketing: false }),
+      save,
+      openSettings: () => setSettingsOpen(true),
+    }),
+    [consent, save],
+  );
+
+  return (
+    <ConsentContext.Provider value={value}>
+      {children}
+      {loaded && consent === null && !settingsOpen && (
+        <ConsentBanner messages={messages} />
+      )}
+      <ConsentDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        messages={messages}
+      />
+    </ConsentContext.Provider>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useConsent } from "@/hooks/use-consent";
+
+/**
+ * Footer link that reopens the consent dialog.
+ */
+export function PrivacySettingsButton({
+  label,
+  className,
+}: {
+  label: string;
+  className?: string;
+}) {
+  const { openSettings } = useConsent();
+
+  return (
+    <button type="button" onClick={openSettings} className={className}>
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { HoneypotField } from "@/components/forms/honeypot-field";
+import { useBotFields } from "@/hooks/use-bot-fields";
+import type { ApiResponse, ValidationErrorDetails } from "@/lib/api/response";
+import {
+  ContactMessageSchema,
+  type ContactMessage,
+} from "@/lib/contact/schema";
+import { submitErrorMessage } from "@/lib/forms/errors";
+import type { Messages } from "@/lib/i18n/messages";
+
+type SubmitState =
+  | { status: "idle" }
+  | { status: "sent" }
+  | { status: "failed"; message: string };
+
+const FIELD_CLASSES =
+  "mt-1 block w-full rounded-md border border-input bg-background px-4 py-2 text-foreground focus:border-ring focus:outline-none focus:ring-1 focus:ring-ring";
+
+/**
+ * Field errors are shown from the catalog rather than the schema, which is
+ * shared with the API and stays in English.
+ */
+export function ContactForm({
+  messages: { contactForm: form, forms },
+}: {
+  messages: Pick<Messages, "contactForm" | "forms">;
+}) {
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    status: "idle",
+  });
+  const { honeypotProps, getBotFields } = useBotFields();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<ContactMessage>({
+    resolver: zodResolver(ContactMessageSchema),
+  });
+
+  const onSubmit = async (values: ContactMessage) => {
+    setSubmitState({ status: "idle" });
+
+    try {
+      const response = await fetch("/api/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...values, ...(await getBotFields()) }),
+      });
+      const result = (await response.json()) as ApiResponse<unknown>;
+
+      if (result.success) {
+        reset();
+        setSubmitState({ status: "sent" });
+        return;
+      }
+
+      if (result.code === "VALIDATION_ERROR" && result.details) {
+        const { issues } = result.details as ValidationErrorDetails;
+        for (const issue of issues) {
+          if (issue.field in ContactMessageSchema.shape) {
+            setError(issue.field as keyof ContactMessage, {
+              type: "server",
+            });
+          }
+        }
+      }
+
+      setSubmitState({
+        status: "failed",
+        message: submitErrorMessage(result.code, forms),
+      });
+    } catch {
+      setSubmitState({ status: "failed", message: forms.networkError });
+    }
+  };
+
+  if (submitState.status === "sent") {
+    return (
+      <div
+        role="status"
+        className="rounded-xl border border-border bg-card text-card-foreground p-8 text-center shadow-lg"
+      >
+        <h3 className="text-2xl font-bold text-foreground">{form.sentTitle}</h3>
+        <p className="mt-2 text-muted-foreground">{form.sentDescription}</p>
+        <button
+          type="button"
+          onClick={() => setSubmitState({ status: "idle" })}
+          className="mt-6 text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+        >
+          {form.sendAnother}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      noValidate
+      className="relative space-y-6 rounded-xl border border-border bg-card text-card-foreground p-8 shadow-lg"
+    >
+      <HoneypotField {...honeypotProps} />
+      <div className="grid gap-6 md:grid-cols-2">
+        <div>
+          <label
+            htmlFor="contact-name"
+            className="block text-sm font-medium text-foreground"
+          >
+            {form.name}
+          </label>
+          <input
+            id="contact-name"
+            type="text"
+            autoComplete="name"
+            aria-invalid={errors.name ? true : undefined}
+            className={FIELD_CLASSES}
+            {...register("name")}
+          />
+          {errors.name && (
+            <p className="mt-1 text-sm text-destructive">{form.errors.name}</p>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="contact-email"
+            className="block text-sm font-medium text-foreground"
+          >
+            {form.email}
+          </label>
+          <input
+            id="contact-email"
+            type="email"
+            autoComplete="email"
+            aria-invalid={errors.email ? true : undefined}
+            className={FIELD_CLASSES}
+            {...register("email")}
+          />
+          {errors.email && (
+            <p className="mt-1 text-sm text-destructive">{form.errors.email}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label
+          htmlFor="contact-subject"
+          className="block text-sm font-medium text-foreground"
+        >
+          {form.subject}{" "}
+          <span className="text-muted-foreground">{forms.optional}</span>
+        </label>
+        <input
+          id="contact-subject"
+          type="text"
+          aria-invalid={errors.subject ? true : undefined}
+          className={FIELD_CLASSES}
+          {...register("subject", {
+            setValueAs: (value: string) => value || undefined,
+          })}
+        />
+        {errors.subject && (
+          <p className="mt-1 text-sm text-destructive">{form.errors.subject}</p>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="contact-message"
+          className="block text-sm font-medium text-foreground"
+        >
+          {form.message}
+        </label>
+        <textarea
+          id="contact-message"
+          rows={5}
+          aria-invalid={errors.message ? true : undefined}
+          className={FIELD_CLASSES}
+          {...register("message")}
+        />
+        {errors.message && (
+          <p className="mt-1 text-sm text-destructive">{form.errors.message}</p>
+        )}
+      </div>
+
+      {submitState.status === "failed" && (
+        <p role="alert" className="text-sm text-destructive">
+          {submitState.message}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium disabled:opacity-60"
+      >
+        {isSubmitting ? form.submitting : form.submit}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,20 @@
+import type { ComponentPropsWithRef } from "react";
+
+/**
+ * Off-screen input for bots that fill every field. Hidden from assistive
+ * tech and skipped by keyboard focus; `display: none` is avoided because some
+ * bots skip fields hidden that way.
+ */
+export function HoneypotField(props: ComponentPropsWithRef<"input">) {
+  return (
+    <div
+      aria-hidden="true"
+      className="absolute -left-[9999px] h-px w-px overflow-hidden"
+    >
+      <label>
+        Leave this field empty
+        <input {...props} />
+      </label>
+    </div>
+  );
+}
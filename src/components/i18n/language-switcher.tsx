@@ -0,0 +1,97 @@
+"use client";
+
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import { Check, Languages } from "lucide-react";
+import { usePathname } from "next/navigation";
+import { LOCALES, LOCALE_NAMES, type Locale } from "@/lib/i18n/config";
+import { localizePath, unlocalizePath } from "@/lib/i18n/paths";
+
+/**
+ * Links to the current page in every locale. The middleware remembers the
+ * locale of the last page visited, so picking one sticks for later visits
+ * to unprefixed URLs.
+ *
+ * Plain links, not `next/link`: `<html lang>` and the consent UI are
+ * rendered by the `[locale]` layout, and swapping the document's language
+ * is cleanest as a full page load.
+ *
+ * `variant="menu"` is the compact dropdown for the nav; `variant="list"` is
+ * an inline list for the footer.
+ */
+export function LanguageSwitcher({
+  locale,
+  label,
+  variant = "menu",
+  className,
+}: {
+  locale: Locale;
+  label: string;
+  variant?: "menu" | "list";
+  className?: string;
+}) {
+  const pathname = usePathname();
+  const hrefFor = (target: Locale) =>
+    localizePath(unlocalizePath(pathname), target);
+
+  if (variant === "list") {
+    return (
+      <nav aria-label={label} className={className}>
+        <ul className="flex items-center gap-3">
+          {LOCALES.map((target) => (
+            <li key={target}>
+              <a
+                href={hrefFor(target)}
+                hrefLang={target}
+                lang={target}
+                aria-current={target === locale ? "page" : undefined}
+                className={
+                  target === locale
+                    ? "font-semibold text-white"
+                    : "text-gray-400 hover:text-white transition-colors"
+                }
+              >
+                {LOCALE_NAMES[target]}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </nav>
+    );
+  }
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger
+        aria-label={label}
+        className="inline-flex h-9 items-center gap-1 rounded-md px-2 text-sm font-medium uppercase text-muted-foreground hover:bg-accent hover:text-foreground transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        <Languages className="h-5 w-5" aria-hidden="true" />
+        {locale}
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          align="end"
+          sideOffset={8}
+          className="z-50 min-w-[9rem] rounded-lg border border-border bg-popover text-popover-foreground p-1 shadow-lg"
+        >
+          {LOCALES.map((target) => (
+            <DropdownMenu.Item key={target} asChild>
+              <a
+                href={hrefFor(target)}
+                hrefLang={target}
+                lang={target}
+                aria-current={target === locale ? "page" : undefined}
+                className="flex items-center justify-between gap-2 rounded-md px-3 py-2 text-sm outline-none hover:bg-accent focus:bg-accent aria-[current=page]:font-semibold"
+              >
+                {LOCALE_NAMES[target]}
+                {target === locale && (
+                  <Check className="h-4 w-4" aria-hidden="true" />
+                )}
+              </a>
+            </DropdownMenu.Item>
+          ))}
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
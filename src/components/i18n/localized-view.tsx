@@ -0,0 +1,15 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import type { ReactNode } from "react";
+import { DEFAULT_LOCALE, isLocale, type Localized } from "@/lib/i18n/config";
+
+/**
+ * Shows the view for the locale in the URL. For not-found boundaries, which
+ * don't receive params: every locale's view is prerendered and the choice
+ * is made in the browser, so nothing has to be read from the request.
+ */
+export function LocalizedView({ views }: { views: Localized<ReactNode> }) {
+  const { locale } = useParams<{ locale?: string }>();
+  return views[isLocale(locale) ? locale : DEFAULT_LOCALE];
+}
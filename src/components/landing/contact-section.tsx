@@ -0,0 +1,29 @@
+import { ContactForm } from "@/components/contact/contact-form";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { SectionHeading } from "./section-heading";
+
+export function ContactSection({ locale }: { locale: Locale }) {
+  const messages = getMessages(locale);
+  const { contact } = messages;
+
+  return (
+    <section id="contact" className="py-20 px-6 md:px-12">
+      <div className="max-w-3xl mx-auto">
+        <SectionHeading
+          eyebrow={contact.eyebrow}
+          title={contact.title}
+          description={contact.description}
+          className="mb-12"
+        />
+
+        <ContactForm
+          messages={{
+            contactForm: messages.contactForm,
+            forms: messages.forms,
+          }}
+        />
+      </div>
+    </section>
+  );
+}
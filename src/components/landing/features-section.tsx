@@ -0,0 +1,83 @@
+import { ACCENT_CLASSES } from "@/components/products/product-icon";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import type { ProductAccent } from "@/lib/products";
+import { SectionHeading } from "./section-heading";
+
+const FEATURES: {
+  /** Key of the feature's copy in the `features` messages. */
+  key: "userCentric" | "intuitive" | "reliable";
+  accent: ProductAccent;
+  iconPath: string;
+}[] = [
+  {
+    key: "userCentric",
+    accent: "blue",
+    iconPath:
+      "M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z",
+  },
+  {
+    key: "intuitive",
+    accent: "purple",
+    iconPath: "M13 10V3L4 14h7v7l9-11h-7z",
+  },
+  {
+    key: "reliable",
+    accent: "blue",
+    iconPath:
+      "M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z",
+  },
+];
+
+export function FeaturesSection({ locale }: { locale: Locale }) {
+  const { features } = getMessages(locale);
+
+  return (
+    <section className="py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+      <div className="max-w-7xl mx-auto">
+        <SectionHeading
+          eyebrow={features.eyebrow}
+          title={features.title}
+          description={features.description}
+        />
+
+        <div className="grid md:grid-cols-3 gap-8">
+          {FEATURES.map((feature) => {
+            const accent = ACCENT_CLASSES[feature.accent];
+            const copy = features[feature.key];
+
+            return (
+              <div
+                key={feature.key}
+                className="bg-card text-card-foreground p-6 rounded-lg shadow-md"
+              >
+                <div
+                  className={`h-12 w-12 rounded-full ${accent.background} flex items-center justify-center mb-4`}
+                >
+                  <svg
+                    className={`h-6 w-6 ${accent.text}`}
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    aria-hidden="true"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d={feature.iconPath}
+                    />
+                  </svg>
+                </div>
+                <h3 className="text-xl font-bold text-foreground mb-2">
+                  {copy.title}
+                </h3>
+                <p className="text-muted-foreground">{copy.description}</p>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </section>
+  );
+}
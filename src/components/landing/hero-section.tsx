@@ -0,0 +1,47 @@
+import { SubscribeDialog } from "@/components/subscribe/subscribe-dialog";
+import { ctaAttributes } from "@/lib/analytics/attributes";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import type { Product } from "@/lib/products";
+
+export function HeroSection({
+  products,
+  locale,
+}: {
+  products: readonly Product[];
+  locale: Locale;
+}) {
+  const { hero, subscribe, forms } = getMessages(locale);
+
+  return (
+    <section className="py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center">
+          <h2 className="text-4xl md:text-5xl lg:text-6xl font-bold text-foreground leading-tight">
+            {hero.titleLead} <br className="hidden md:block" />
+            <span className="bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              {hero.titleHighlight}
+            </span>
+          </h2>
+          <p className="mt-6 text-xl text-muted-foreground max-w-3xl mx-auto">
+            {hero.description}
+          </p>
+          <div className="mt-10 flex flex-col sm:flex-row justify-center gap-4">
+            <SubscribeDialog
+              products={products.map(({ slug, name }) => ({ slug, name }))}
+              messages={{ subscribe, forms }}
+              trigger={
+                <button
+                  {...ctaAttributes("explore_products", "hero")}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium"
+                >
+                  {hero.cta}
+                </button>
+              }
+            />
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
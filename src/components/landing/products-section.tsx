@@ -0,0 +1,29 @@
+import { ProductGrid } from "@/components/products/product-card";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import type { Product } from "@/lib/products";
+import { SectionHeading } from "./section-heading";
+
+export function ProductsSection({
+  products,
+  locale,
+}: {
+  products: readonly Product[];
+  locale: Locale;
+}) {
+  const messages = getMessages(locale);
+
+  return (
+    <section id="products" className="py-20 px-6 md:px-12">
+      <div className="max-w-7xl mx-auto">
+        <SectionHeading
+          eyebrow={messages.products.eyebrow}
+          title={messages.products.title}
+          description={messages.products.description}
+        />
+
+        <ProductGrid products={products} locale={locale} />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,25 @@
+export function SectionHeading({
+  eyebrow,
+  title,
+  description,
+  className = "mb-16",
+}: {
+  eyebrow: string;
+  title: string;
+  description: string;
+  className?: string;
+}) {
+  return (
+    <div className={`text-center ${className}`}>
+      <h3 className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+        {eyebrow}
+      </h3>
+      <h2 className="mt-2 text-3xl md:text-4xl font-bold text-foreground">
+        {title}
+      </h2>
+      <p className="mt-4 text-xl text-muted-foreground max-w-3xl mx-auto">
+        {description}
+      </p>
+    </div>
+  );
+}
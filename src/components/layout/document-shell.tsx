@@ -0,0 +1,40 @@
+import { Inter } from "next/font/google";
+import type { ReactNode } from "react";
+import { Analytics } from "@/components/analytics/analytics";
+import { WebVitals } from "@/components/analytics/web-vitals";
+import { ConsentGate } from "@/components/consent/consent-gate";
+import { ConsentProvider } from "@/components/consent/consent-provider";
+import { ThemeProvider } from "@/components/theme/theme-provider";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+
+const inter = Inter({ subsets: ["latin"] });
+
+/**
+ * `<html>`, `<body>` and the app-wide providers. Shared by the `[locale]`
+ * layout and the not-found page, which sits outside that segment.
+ */
+export function DocumentShell({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: ReactNode;
+}) {
+  return (
+    // next-themes sets the theme class on <html> before hydration.
+    <html lang={locale} suppressHydrationWarning>
+      <body className={inter.className}>
+        <ThemeProvider>
+          <ConsentProvider messages={getMessages(locale).consent}>
+            {children}
+            <ConsentGate category="analytics">
+              <Analytics />
+              <WebVitals />
+            </ConsentGate>
+          </ConsentProvider>
+        </ThemeProvider>
+      </body>
+    </html>
+  );
+}
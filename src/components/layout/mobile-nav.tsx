@@ -0,0 +1,145 @@
+"use client";
+
+import * as Dialog from "@radix-ui/react-dialog";
+import { Menu, X } from "lucide-react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useEffect, useState } from "react";
+import { SubscribeDialog } from "@/components/subscribe/subscribe-dialog";
+import { ctaAttributes } from "@/lib/analytics/attributes";
+import type { Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/paths";
+import {
+  NAV_LINKS,
+  NAV_LINK_CLASSES,
+  navLinkCurrent,
+  navLinkTone,
+  type NavMessages,
+  type NavProduct,
+} from "./nav-links";
+
+/**
+ * Slide-in navigation drawer for small screens.
+ *
+ * Radix Dialog provides `aria-expanded`/`aria-controls` on the trigger, the
+ * focus trap, Escape to close and focus return. Following any link closes
+ * the drawer, including same-page anchor links that don't change the route.
+ * "Get Started" closes the drawer before opening the signup dialog so the two
+ * focus traps never stack.
+ */
+export function MobileNav({
+  products,
+  locale,
+  messages,
+  activeSection,
+}: {
+  products: readonly NavProduct[];
+  locale: Locale;
+  messages: NavMessages;
+  activeSection: string | null;
+}) {
+  const { nav } = messages;
+  const [open, setOpen] = useState(false);
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
+  const pathname = usePathname();
+
+  useEffect(() => setOpen(false), [pathname]);
+
+  const close = () => setOpen(false);
+
+  return (
+    <>
+      <Dialog.Root open={open} onOpenChange={setOpen}>
+        <Dialog.Trigger
+          aria-label={nav.openMenu}
+          className="inline-flex h-9 w-9 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          <Menu className="h-6 w-6" aria-hidden="true" />
+        </Dialog.Trigger>
+
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 z-40 bg-black/40 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+          <Dialog.Content
+            aria-describedby={undefined}
+            className="fixed inset-y-0 right-0 z-50 flex w-4/5 max-w-sm flex-col bg-background border-l border-border p-6 shadow-xl data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:slide-out-to-right data-[state=open]:slide-in-from-right"
+          >
+            <div className="flex items-center justify-between">
+              <Dialog.Title className="text-lg font-semibold text-foreground">
+                {nav.menu}
+              </Dialog.Title>
+              <Dialog.Close
+                aria-label={nav.closeMenu}
+                className="inline-flex h-9 w-9 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <X className="h-5 w-5" aria-hidden="true" />
+              </Dialog.Close>
+            </div>
+
+            <nav
+              aria-label={nav.mobile}
+              className="mt-6 flex flex-col space-y-2"
+            >
+              {NAV_LINKS.map((link) => {
+                const current = navLinkCurrent(link, activeSection, pathname);
+
+                return (
+                  <div key={link.href} className="flex flex-col">
+                    <Link
+                      href={localizePath(link.href, locale)}
+                      onClick={close}
+                      aria-current={current}
+                      className={`py-2 ${NAV_LINK_CLASSES} ${navLinkTone(current !== undefined)}`}
+                    >
+                      {nav[link.key]}
+                    </Link>
+                    {link.key === "products" &&
+                      products.map((product) => {
+                        const href = localizePath(
+                          `/products/${product.slug}`,
+                          locale,
+                        );
+
+                        return (
+                          <Link
+                            key={product.slug}
+                            href={href}
+                            onClick={close}
+                            aria-current={
+                              pathname === href ? "page" : undefined
+                            }
+                            className={`py-1 pl-4 ${NAV_LINK_CLASSES} ${navLinkTone(
+                              pathname === href,
+                            )}`}
+                          >
+                            {product.name}
+                          </Link>
+                        );
+                      })}
+                  </div>
+                );
+              })}
+            </nav>
+
+            <button
+              {...ctaAttributes("get_started", "mobile-nav")}
+              onClick={() => {
+                close();
+                setSubscribeOpen(true);
+              }}
+              className="mt-auto bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-2 rounded-md hover:opacity-90 transition-opacity w-full"
+            >
+              {nav.getStarted}
+            </button>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+
+      <SubscribeDialog
+        products={products}
+        messages={messages}
+        open={subscribeOpen}
+        onOpenChange={setSubscribeOpen}
+      />
+    </>
+  );
+}
@@ -0,0 +1,62 @@
+import type { Messages } from "@/lib/i18n/messages";
+import { unlocalizePath } from "@/lib/i18n/paths";
+import type { Product } from "@/lib/products";
+
+/**
+ * The product fields the nav renders, with the tagline in the page's
+ * locale. The server maps the registry down to these so the rest of each
+ * record stays out of the client payload.
+ */
+export type NavProduct = Pick<Product, "slug" | "name" | "url"> & {
+  tagline: string;
+};
+
+/** The catalog sections the nav and the signup dialog it opens render. */
+export type NavMessages = Pick<
+  Messages,
+  "nav" | "theme" | "subscribe" | "forms"
+>;
+
+/**
+ * Top-level nav entries. `key` is the label's key in the `nav` messages.
+ * Anchor links name the landing page `section` they scroll to, used for
+ * active-section highlighting; page links are highlighted on their page.
+ * `href` is unprefixed; localize it with `localizePath`.
+ */
+export const NAV_LINKS = [
+  { key: "products", href: "/#products", section: "products" },
+  { key: "about", href: "/about" },
+  { key: "contact", href: "/#contact", section: "contact" },
+] as const;
+
+export type NavLink = (typeof NAV_LINKS)[number];
+
+export const NAV_SECTION_IDS = NAV_LINKS.flatMap((link) =>
+  "section" in link ? [link.section] : [],
+);
+
+export type NavSection = (typeof NAV_SECTION_IDS)[number];
+
+/**
+ * `aria-current` for a nav link: "location" while its section is in view,
+ * "page" on the page it links to.
+ */
+export function navLinkCurrent(
+  link: NavLink,
+  activeSection: string | null,
+  pathname: string,
+): "location" | "page" | undefined {
+  if ("section" in link) {
+    return link.section === activeSection ? "location" : undefined;
+  }
+  return unlocalizePath(pathname) === link.href ? "page" : undefined;
+}
+
+export const NAV_LINK_CLASSES =
+  "transition-colors hover:text-blue-600 dark:hover:text-blue-400";
+
+export function navLinkTone(active: boolean): string {
+  return active
+    ? "text-blue-600 dark:text-blue-400 font-medium"
+    : "text-muted-foreground";
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { ProductsMenu } from "@/components/products/products-menu";
+import { LanguageSwitcher } from "@/components/i18n/language-switcher";
+import { SubscribeDialog } from "@/components/subscribe/subscribe-dialog";
+import { ThemeToggle } from "@/components/theme/theme-toggle";
+import { useActiveSection } from "@/hooks/use-active-section";
+import { ctaAttributes } from "@/lib/analytics/attributes";
+import type { Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/paths";
+import { MobileNav } from "./mobile-nav";
+import {
+  NAV_LINKS,
+  NAV_LINK_CLASSES,
+  NAV_SECTION_IDS,
+  navLinkCurrent,
+  navLinkTone,
+  type NavMessages,
+  type NavProduct,
+} from "./nav-links";
+
+/**
+ * The interactive part of the site nav: desktop links with active-section
+ * highlighting, the language and theme pickers and the mobile drawer.
+ * Products and messages are passed in from the server so the registry, its
+ * schema and the catalogs stay out of the client bundle.
+ */
+export function NavMenu({
+  products,
+  locale,
+  messages,
+}: {
+  products: readonly NavProduct[];
+  locale: Locale;
+  messages: NavMessages;
+}) {
+  const { nav } = messages;
+  const activeSection = useActiveSection(NAV_SECTION_IDS);
+  const pathname = usePathname();
+
+  return (
+    <>
+      {/* Mobile Navigation */}
+      <div className="md:hidden flex items-center gap-2">
+        <LanguageSwitcher locale={locale} label={nav.language} />
+        <ThemeToggle messages={messages.theme} />
+        <MobileNav
+          products={products}
+          locale={locale}
+          messages={messages}
+          activeSection={activeSection}
+        />
+      </div>
+
+      {/* Desktop Navigation */}
+      <div className="hidden md:flex items-center space-x-8">
+        {NAV_LINKS.map((link) => {
+          const current = navLinkCurrent(link, activeSection, pathname);
+
+          return link.key === "products" ? (
+            <ProductsMenu
+              key={link.href}
+              products={products}
+              locale={locale}
+              labels={nav}
+              active={current !== undefined}
+            />
+          ) : (
+            <Link
+              key={link.href}
+              href={localizePath(link.href, locale)}
+              aria-current={current}
+              className={`${NAV_LINK_CLASSES} ${navLinkTone(current !== undefined)}`}
+            >
+              {nav[link.key]}
+            </Link>
+          );
+        })}
+        <div className="flex items-center gap-2">
+          <LanguageSwitcher locale={locale} label={nav.language} />
+          <ThemeToggle messages={messages.theme} />
+        </div>
+        <SubscribeDialog
+          products={products}
+          messages={messages}
+          trigger={
+            <button
+              {...ctaAttributes("get_started", "nav")}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-2 rounded-md hover:opacity-90 transition-opacity"
+            >
+              {nav.getStarted}
+            </button>
+          }
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import Link from "next/link";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { SiteFooter } from "./site-footer";
+import { SiteNav } from "./site-nav";
+
+export function NotFoundContent({ locale }: { locale: Locale }) {
+  const messages = getMessages(locale);
+
+  return (
+    <div className="min-h-full flex flex-col font-sans bg-background text-foreground">
+      <SiteNav locale={locale} />
+
+      <section className="flex-1 py-20 px-6 md:px-12 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/40 dark:to-purple-950/40">
+        <div className="max-w-3xl mx-auto text-center">
+          <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+            404
+          </p>
+          <h1 className="mt-2 text-4xl md:text-5xl font-bold text-foreground">
+            {messages.notFound.title}
+          </h1>
+          <p className="mt-6 text-xl text-muted-foreground">
+            {messages.notFound.description}
+          </p>
+          <Link
+            href={localizePath("/", locale)}
+            className="mt-10 inline-block bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium"
+          >
+            {messages.common.backHome}
+          </Link>
+        </div>
+      </section>
+
+      <SiteFooter locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import Link from "next/link";
+import { PrivacySettingsButton } from "@/components/consent/privacy-settings-button";
+import { LanguageSwitcher } from "@/components/i18n/language-switcher";
+import { buildInfo, shortSha } from "@/lib/build-info";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { getLegalDocuments } from "@/lib/legal";
+import { products } from "@/lib/products";
+
+export function SiteFooter({ locale }: { locale: Locale }) {
+  const { footer } = getMessages(locale);
+  const legalDocuments = getLegalDocuments();
+
+  return (
+    <footer className="bg-gray-900 text-white py-12 px-6 md:px-12 mt-auto dark:border-t dark:border-border">
+      <div className="max-w-7xl mx-auto">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+          <div>
+            <h3 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent mb-4">
+              IntensityMagic
+            </h3>
+          </div>
+
+          <div>
+            <h4 className="text-lg font-semibold mb-4">{footer.products}</h4>
+            <ul className="space-y-2">
+              {products.map((product) => (
+                <li key={product.slug}>
+                  <Link
+                    href={localizePath(`/products/${product.slug}`, locale)}
+                    className="text-gray-400 hover:text-white transition-colors"
+                  >
+                    {product.name}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h4 className="text-lg font-semibold mb-4">{footer.company}</h4>
+            <ul className="space-y-2">
+              <li>
+                <Link
+                  href={localizePath("/about", locale)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  {footer.aboutUs}
+                </Link>
+              </li>
+              <li>
+                <Link
+                  href={localizePath("/blog", locale)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  {footer.blog}
+                </Link>
+              </li>
+            </ul>
+          </div>
+
+          <div>
+            <h4 className="text-lg font-semibold mb-4">{footer.connect}</h4>
+            <ul className="space-y-2">
+              <li>
+                <Link
+                  href={localizePath("/#contact", locale)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  {footer.contact}
+                </Link>
+              </li>
+              <li>
+                <a
+                  href="#"
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  {footer.support}
+                </a>
+              </li>
+            </ul>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-800 mt-12 pt-8 flex flex-col md:flex-row justify-between items-center">
+          <div className="flex flex-col md:flex-row items-center gap-2 md:gap-6">
+            <p className="text-gray-400">{footer.copyright}</p>
+            {legalDocuments.length > 0 && (
+              <nav aria-label={footer.legal}>
+                <ul className="flex flex-wrap justify-center gap-x-6 gap-y-2">
+                  {legalDocuments.map((document) => (
+                    <li key={document.slug}>
+                      <Link
+                        href={localizePath(`/legal/${document.slug}`, locale)}
+                        className="text-gray-400 hover:text-white transition-colors"
+                      >
+                        {document.current.title[locale]}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+            <PrivacySettingsButton
+              label={footer.privacySettings}
+              className="text-gray-400 hover:text-white transition-colors"
+            />
+            <LanguageSwitcher
+              locale={locale}
+              label={footer.language}
+              variant="list"
+            />
+          </div>
+          <p
+            className="mt-4 md:mt-0 text-xs text-gray-500 font-mono"
+            title={`Built ${buildInfo.builtAt} from ${buildInfo.branch}`}
+          >
+            v{buildInfo.version} · {shortSha(buildInfo.commitSha)}
+          </p>
+        </div>
+      </div>
+    </footer>
+  );
+}
@@ -0,0 +1,44 @@
+import Link from "next/link";
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import { products } from "@/lib/products";
+import { NavMenu } from "./nav-menu";
+
+export function SiteNav({ locale }: { locale: Locale }) {
+  const messages = getMessages(locale);
+
+  return (
+    <nav
+      aria-label={messages.nav.main}
+      className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border py-4 px-6 md:px-12"
+    >
+      <div className="max-w-7xl mx-auto flex justify-between items-center">
+        <div className="flex items-center">
+          <Link
+            href={localizePath("/", locale)}
+            className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent"
+          >
+            IntensityMagic
+          </Link>
+        </div>
+
+        <NavMenu
+          products={products.map(({ slug, name, tagline, url }) => ({
+            slug,
+            name,
+            tagline: tagline[locale],
+            url,
+          }))}
+          locale={locale}
+          messages={{
+            nav: messages.nav,
+            theme: messages.theme,
+            subscribe: messages.subscribe,
+            forms: messages.forms,
+          }}
+        />
+      </div>
+    </nav>
+  );
+}
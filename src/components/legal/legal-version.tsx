@@ -0,0 +1,87 @@
+import Link from "next/link";
+import { MdxContent } from "@/components/blog/mdx-content";
+import type { Locale } from "@/lib/i18n/config";
+import { formatDate } from "@/lib/i18n/format";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import type { LegalDocument, LegalVersion } from "@/lib/legal";
+import { VersionHistory } from "./version-history";
+
+/**
+ * One version of a legal document with its version history. Earlier
+ * versions say when they were replaced and link to the current text.
+ */
+export function LegalVersionView({
+  document,
+  version,
+  locale,
+}: {
+  document: LegalDocument;
+  version: LegalVersion;
+  locale: Locale;
+}) {
+  const { legal } = getMessages(locale);
+  const replacedBy = document.versions.find(
+    (candidate) => candidate.number === version.number + 1,
+  );
+
+  return (
+    <article className="flex-1 py-20 px-6 md:px-12">
+      <div className="max-w-3xl mx-auto">
+        <header>
+          <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wide">
+            {legal.eyebrow}
+          </p>
+          <h1 className="mt-2 text-4xl md:text-5xl font-bold text-foreground leading-tight">
+            {version.title[locale]}
+          </h1>
+          <p className="mt-6 flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+            <span>
+              {formatMessage(legal.version, { number: version.number })}
+            </span>
+            <span aria-hidden="true">·</span>
+            <time dateTime={version.effectiveDate.toISOString().slice(0, 10)}>
+              {formatMessage(legal.effective, {
+                date: formatDate(version.effectiveDate, locale),
+              })}
+            </time>
+          </p>
+          {replacedBy && (
+            <p
+              role="note"
+              className="mt-6 rounded-lg border border-amber-300 bg-amber-50 p-4 text-amber-900 dark:border-amber-700 dark:bg-amber-950/40 dark:text-amber-200"
+            >
+              {formatMessage(legal.superseded, {
+                date: formatDate(replacedBy.effectiveDate, locale),
+              })}{" "}
+              <Link
+                href={localizePath(`/legal/${document.slug}`, locale)}
+                className="font-medium underline underline-offset-2"
+              >
+                {legal.viewCurrent}
+              </Link>
+            </p>
+          )}
+          {locale !== "en" && (
+            <p
+              lang={locale}
+              className="mt-4 text-sm text-muted-foreground italic"
+            >
+              {legal.englishOnly}
+            </p>
+          )}
+        </header>
+
+        <div lang="en" className="mt-10">
+          <MdxContent source={version.body} locale={locale} />
+        </div>
+
+        <VersionHistory
+          document={document}
+          activeVersion={version.version}
+          locale={locale}
+        />
+      </div>
+    </article>
+  );
+}
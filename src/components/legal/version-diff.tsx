@@ -0,0 +1,43 @@
+import type { Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import type { VersionDiff as Diff } from "@/lib/legal";
+
+/**
+ * Word-level changes between two versions, shown inline in the Markdown
+ * source. Insertions and deletions carry visually hidden labels so screen
+ * readers announce them too.
+ */
+export function VersionDiff({ diff, locale }: { diff: Diff; locale: Locale }) {
+  const { legal } = getMessages(locale);
+
+  return (
+    <div
+      lang="en"
+      className="whitespace-pre-wrap break-words rounded-lg border border-border bg-card p-6 text-base leading-relaxed text-muted-foreground"
+    >
+      {diff.parts.map((part, index) =>
+        part.added ? (
+          <ins
+            key={index}
+            className="rounded bg-green-100 text-green-900 no-underline dark:bg-green-900/40 dark:text-green-200"
+          >
+            <span className="sr-only">[{legal.added}: </span>
+            {part.value}
+            <span className="sr-only">]</span>
+          </ins>
+        ) : part.removed ? (
+          <del
+            key={index}
+            className="rounded bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200"
+          >
+            <span className="sr-only">[{legal.removed}: </span>
+            {part.value}
+            <span className="sr-only">]</span>
+          </del>
+        ) : (
+          <span key={index}>{part.value}</span>
+        ),
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import Link from "next/link";
+import type { Locale } from "@/lib/i18n/config";
+import { formatDate } from "@/lib/i18n/format";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import type { LegalDocument } from "@/lib/legal";
+
+/**
+ * Every version of a document, newest first, with links to its text and to
+ * what changed from the version before it.
+ */
+export function VersionHistory({
+  document,
+  activeVersion,
+  locale,
+}: {
+  document: LegalDocument;
+  activeVersion: string;
+  locale: Locale;
+}) {
+  const { legal } = getMessages(locale);
+  const linkClassName =
+    "text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors";
+
+  return (
+    <section aria-labelledby="version-history" className="mt-16">
+      <h2 id="version-history" className="text-2xl font-bold text-foreground">
+        {legal.history}
+      </h2>
+      <ol className="mt-6 space-y-4">
+        {document.versions.map((version) => {
+          const active = version.version === activeVersion;
+          const href =
+            version.version === document.current.version
+              ? `/legal/${document.slug}`
+              : `/legal/${document.slug}/${version.version}`;
+
+          return (
+            <li
+              key={version.version}
+              className="rounded-lg border border-border bg-card p-4"
+            >
+              <p className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                <span className="font-semibold text-foreground">
+                  {formatMessage(legal.version, { number: version.number })}
+                </span>
+                {version.version === document.current.version && (
+                  <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {legal.current}
+                  </span>
+                )}
+                <span aria-hidden="true" className="text-muted-foreground">
+                  ·
+                </span>
+                <time
+                  dateTime={version.effectiveDate.toISOString().slice(0, 10)}
+                  className="text-muted-foreground"
+                >
+                  {formatMessage(legal.effective, {
+                    date: formatDate(version.effectiveDate, locale),
+                  })}
+                </time>
+              </p>
+              {version.changes && (
+                <p className="mt-2 text-muted-foreground">
+                  {version.changes[locale]}
+                </p>
+              )}
+              <p className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {active ? (
+                  <span aria-current="page" className="text-muted-foreground">
+                    {legal.viewing}
+                  </span>
+                ) : (
+                  <Link
+                    href={localizePath(href, locale)}
+                    className={linkClassName}
+                  >
+                    {legal.view}
+                  </Link>
+                )}
+                {version.number > 1 && (
+                  <Link
+                    href={localizePath(
+                      `/legal/${document.slug}/${version.version}/changes`,
+                      locale,
+                    )}
+                    className={linkClassName}
+                  >
+                    {legal.changes}
+                  </Link>
+                )}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import type { Locale } from "@/lib/i18n/config";
+import { formatMessage, getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import type { Product } from "@/lib/products";
+import { ProductIcon } from "./product-icon";
+
+export function ProductCard({
+  product,
+  locale,
+}: {
+  product: Product;
+  locale: Locale;
+}) {
+  const messages = getMessages(locale).products;
+
+  return (
+    <div className="bg-card text-card-foreground rounded-xl p-8 shadow-lg border border-border hover:shadow-xl transition-shadow">
+      <div className="flex items-start justify-between mb-6">
+        <ProductIcon icon={product.icon} accent={product.accent} />
+        {product.status !== "live" && (
+          <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground bg-muted rounded-full px-3 py-1">
+            {messages.status[product.status]}
+          </span>
+        )}
+      </div>
+      <h3 className="text-2xl font-bold text-foreground mb-4">
+        {product.name}
+      </h3>
+      <p className="text-muted-foreground mb-6">
+        {product.description[locale]}
+      </p>
+      <Link
+        href={localizePath(`/products/${product.slug}`, locale)}
+        className="text-blue-600 dark:text-blue-400 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+      >
+        {formatMessage(messages.learnMore, { name: product.name })} &rarr;
+      </Link>
+    </div>
+  );
+}
+
+export function ProductGrid({
+  products,
+  locale,
+}: {
+  products: readonly Product[];
+  locale: Locale;
+}) {
+  return (
+    <div className="grid md:grid-cols-2 gap-12">
+      {products.map((product) => (
+        <ProductCard key={product.slug} product={product} locale={locale} />
+      ))}
+    </div>
+  );
+}
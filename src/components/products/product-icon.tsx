@@ -0,0 +1,57 @@
+import type {
+  ProductAccent,
+  ProductIcon as ProductIconName,
+} from "@/lib/products";
+
+const ICON_PATHS: Record<ProductIconName, string> = {
+  beaker:
+    "M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z",
+  "book-open":
+    "M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253",
+};
+
+// Full class names so Tailwind's content scanner picks them up.
+export const ACCENT_CLASSES: Record<
+  ProductAccent,
+  { background: string; text: string }
+> = {
+  blue: {
+    background: "bg-blue-100 dark:bg-blue-900/40",
+    text: "text-blue-600 dark:text-blue-400",
+  },
+  purple: {
+    background: "bg-purple-100 dark:bg-purple-900/40",
+    text: "text-purple-600 dark:text-purple-400",
+  },
+};
+
+export function ProductIcon({
+  icon,
+  accent,
+}: {
+  icon: ProductIconName;
+  accent: ProductAccent;
+}) {
+  const classes = ACCENT_CLASSES[accent];
+
+  return (
+    <div
+      className={`h-12 w-12 rounded-lg ${classes.background} flex items-center justify-center`}
+    >
+      <svg
+        className={`h-6 w-6 ${classes.text}`}
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d={ICON_PATHS[icon]}
+        />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import Link from "next/link";
+import {
+  NAV_LINK_CLASSES,
+  navLinkTone,
+  type NavProduct,
+} from "@/components/layout/nav-links";
+import type { Locale } from "@/lib/i18n/config";
+import type { Messages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+
+/**
+ * Desktop nav entry that lists every product from the registry.
+ */
+export function ProductsMenu({
+  products,
+  locale,
+  labels,
+  active = false,
+}: {
+  products: readonly NavProduct[];
+  locale: Locale;
+  labels: Pick<Messages["nav"], "products" | "allProducts">;
+  active?: boolean;
+}) {
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger
+        className={`${NAV_LINK_CLASSES} ${navLinkTone(active)} focus:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-sm`}
+      >
+        {labels.products}
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          align="start"
+          sideOffset={12}
+          className="z-50 min-w-[16rem] rounded-lg border border-border bg-popover text-popover-foreground p-2 shadow-lg"
+        >
+          {products.map((product) => (
+            <DropdownMenu.Item key={product.slug} asChild>
+              <Link
+                href={localizePath(`/products/${product.slug}`, locale)}
+                className="block rounded-md px-3 py-2 outline-none hover:bg-accent focus:bg-accent"
+              >
+                <span className="block font-medium text-foreground">
+                  {product.name}
+                </span>
+                <span className="block text-sm text-muted-foreground">
+                  {product.tagline}
+                </span>
+              </Link>
+            </DropdownMenu.Item>
+          ))}
+          <DropdownMenu.Separator className="my-1 h-px bg-muted" />
+          <DropdownMenu.Item asChild>
+            <Link
+              href={localizePath("/#products", locale)}
+              className="block rounded-md px-3 py-2 text-sm text-blue-600 dark:text-blue-400 outline-none hover:bg-accent focus:bg-accent"
+            >
+              {labels.allProducts}
+            </Link>
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
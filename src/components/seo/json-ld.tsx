@@ -0,0 +1,10 @@
+import { type JsonLdObject, serializeJsonLd } from "@/lib/seo/json-ld";
+
+export function JsonLd({ data }: { data: JsonLdObject | JsonLdObject[] }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
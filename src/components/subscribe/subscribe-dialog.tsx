@@ -0,0 +1,72 @@
+"use client";
+
+import * as Dialog from "@radix-ui/react-dialog";
+import { X } from "lucide-react";
+import { Suspense, lazy, type ReactNode } from "react";
+import type { Messages } from "@/lib/i18n/messages";
+import type { SubscribeProductOption } from "./subscribe-form";
+
+// The form pulls in react-hook-form and zod; load it when the dialog first
+// opens so the nav doesn't carry it on every page. `lazy` rather than
+// `next/dynamic` so the loading text can come from the catalog.
+const SubscribeForm = lazy(() =>
+  import("./subscribe-form").then((mod) => ({ default: mod.SubscribeForm })),
+);
+
+/**
+ * Waitlist signup in a modal. Pass `trigger` for a self-contained button, or
+ * control `open` from the outside when the opener lives in another dialog
+ * (the mobile drawer).
+ */
+export function SubscribeDialog({
+  products,
+  messages,
+  trigger,
+  open,
+  onOpenChange,
+}: {
+  products: readonly SubscribeProductOption[];
+  messages: Pick<Messages, "subscribe" | "forms">;
+  trigger?: ReactNode;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}) {
+  return (
+    <Dialog.Root
+      {...(open !== undefined && { open })}
+      {...(onOpenChange && { onOpenChange })}
+    >
+      {trigger && <Dialog.Trigger asChild>{trigger}</Dialog.Trigger>}
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black/40 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-[calc(100%-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 rounded-xl border border-border bg-card text-card-foreground p-8 shadow-xl data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95">
+          <div className="flex items-start justify-between gap-4">
+            <Dialog.Title className="text-2xl font-bold text-foreground">
+              {messages.subscribe.title}
+            </Dialog.Title>
+            <Dialog.Close
+              aria-label={messages.subscribe.close}
+              className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <X className="h-5 w-5" aria-hidden="true" />
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="mt-2 mb-6 text-muted-foreground">
+            {messages.subscribe.description}
+          </Dialog.Description>
+
+          <Suspense
+            fallback={
+              <p className="py-8 text-center text-muted-foreground">
+                {messages.subscribe.loading}
+              </p>
+            }
+          >
+            <SubscribeForm products={products} messages={messages} />
+          </Suspense>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
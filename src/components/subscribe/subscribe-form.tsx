@@ -0,0 +1,178 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { HoneypotField } from "@/components/forms/honeypot-field";
+import { useBotFields } from "@/hooks/use-bot-fields";
+import type { ApiResponse, ValidationErrorDetails } from "@/lib/api/response";
+import { submitErrorMessage } from "@/lib/forms/errors";
+import { formatMessage } from "@/lib/i18n/format";
+import type { Messages } from "@/lib/i18n/messages";
+import {
+  SubscribeRequestSchema,
+  type SubscribeRequest,
+} from "@/lib/subscribe/schema";
+
+export interface SubscribeProductOption {
+  slug: string;
+  name: string;
+}
+
+type SubmitState =
+  | { status: "idle" }
+  | { status: "sent"; email: string }
+  | { status: "failed"; message: string };
+
+const FIELD_CLASSES =
+  "mt-1 block w-full rounded-md border border-input bg-background px-4 py-2 text-foreground focus:border-ring focus:outline-none focus:ring-1 focus:ring-ring";
+
+/**
+ * Field errors are shown from the catalog rather than the schema, which is
+ * shared with the API and stays in English.
+ */
+export function SubscribeForm({
+  products,
+  messages: { subscribe, forms },
+}: {
+  products: readonly SubscribeProductOption[];
+  messages: Pick<Messages, "subscribe" | "forms">;
+}) {
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    status: "idle",
+  });
+  const { honeypotProps, getBotFields } = useBotFields();
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<SubscribeRequest>({
+    resolver: zodResolver(SubscribeRequestSchema),
+    defaultValues: { email: "", products: [] },
+  });
+
+  const onSubmit = async (values: SubscribeRequest) => {
+    setSubmitState({ status: "idle" });
+
+    try {
+      const response = await fetch("/api/subscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...values, ...(await getBotFields()) }),
+      });
+      const result = (await response.json()) as ApiResponse<{
+        email: string;
+      }>;
+
+      if (result.success) {
+        setSubmitState({ status: "sent", email: result.data.email });
+        return;
+      }
+
+      if (result.code === "VALIDATION_ERROR" && result.details) {
+        const { issues } = result.details as ValidationErrorDetails;
+        for (const issue of issues) {
+          const field = issue.field.split(".")[0] ?? "";
+          if (field in SubscribeRequestSchema.shape) {
+            setError(field as keyof SubscribeRequest, { type: "server" });
+          }
+        }
+      }
+
+      setSubmitState({
+        status: "failed",
+        message: submitErrorMessage(result.code, forms),
+      });
+    } catch {
+      setSubmitState({ status: "failed", message: forms.networkError });
+    }
+  };
+
+  if (submitState.status === "sent") {
+    return (
+      <div role="status" className="text-center">
+        <h3 className="text-xl font-bold text-foreground">
+          {subscribe.sentTitle}
+        </h3>
+        <p className="mt-2 text-muted-foreground">
+          {formatMessage(subscribe.sentDescription, {
+            email: submitState.email,
+          })}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      noValidate
+      className="relative space-y-6"
+    >
+      <HoneypotField {...honeypotProps} />
+      <div>
+        <label
+          htmlFor="subscribe-email"
+          className="block text-sm font-medium text-foreground"
+        >
+          {subscribe.email}
+        </label>
+        <input
+          id="subscribe-email"
+          type="email"
+          autoComplete="email"
+          aria-invalid={errors.email ? true : undefined}
+          className={FIELD_CLASSES}
+          {...register("email")}
+        />
+        {errors.email && (
+          <p className="mt-1 text-sm text-destructive">
+            {subscribe.errors.email}
+          </p>
+        )}
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-foreground">
+          {subscribe.interests}
+        </legend>
+        <div className="mt-2 space-y-2">
+          {products.map((product) => (
+            <label
+              key={product.slug}
+              className="flex items-center gap-3 text-foreground"
+            >
+              <input
+                type="checkbox"
+                value={product.slug}
+                className="h-4 w-4 rounded border-input accent-blue-600"
+                {...register("products")}
+              />
+              {product.name}
+            </label>
+          ))}
+        </div>
+        {errors.products && (
+          <p className="mt-1 text-sm text-destructive">
+            {subscribe.errors.products}
+          </p>
+        )}
+      </fieldset>
+
+      {submitState.status === "failed" && (
+        <p role="alert" className="text-sm text-destructive">
+          {submitState.message}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-md hover:opacity-90 transition-opacity text-lg font-medium disabled:opacity-60"
+      >
+        {isSubmitting ? subscribe.submitting : subscribe.submit}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import { Monitor, Moon, Sun } from "lucide-react";
+import { useTheme } from "next-themes";
+import { useEffect, useState } from "react";
+import type { Messages } from "@/lib/i18n/messages";
+
+const THEMES = [
+  { value: "system", Icon: Monitor },
+  { value: "light", Icon: Sun },
+  { value: "dark", Icon: Moon },
+] as const;
+
+/**
+ * System / light / dark picker. The choice is persisted by next-themes in
+ * localStorage.
+ */
+export function ThemeToggle({ messages }: { messages: Messages["theme"] }) {
+  const { theme, resolvedTheme, setTheme } = useTheme();
+  const [mounted, setMounted] = useState(false);
+
+  // The theme is only known on the client; render a neutral icon until then
+  // so the server and client markup match.
+  useEffect(() => setMounted(true), []);
+
+  const TriggerIcon = !mounted
+    ? Monitor
+    : resolvedTheme === "dark"
+      ? Moon
+      : Sun;
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger
+        aria-label={messages.label}
+        className="inline-flex h-9 w-9 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        <TriggerIcon className="h-5 w-5" aria-hidden="true" />
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          align="end"
+          sideOffset={8}
+          className="z-50 min-w-[9rem] rounded-lg border border-border bg-popover text-popover-foreground p-1 shadow-lg"
+        >
+          <DropdownMenu.RadioGroup
+            value={mounted ? (theme ?? "system") : "system"}
+            onValueChange={setTheme}
+          >
+            {THEMES.map(({ value, Icon }) => (
+              <DropdownMenu.RadioItem
+                key={value}
+                value={value}
+                className="flex cursor-pointer items-center gap-2 rounded-md px-3 py-2 text-sm outline-none hover:bg-accent focus:bg-accent data-[state=checked]:font-semibold"
+              >
+                <Icon className="h-4 w-4" aria-hidden="true" />
+                {messages[value]}
+              </DropdownMenu.RadioItem>
+            ))}
+          </DropdownMenu.RadioGroup>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
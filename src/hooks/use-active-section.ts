@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Track which of the given section ids is currently in view.
+ *
+ * A section counts as active once its top crosses the upper third of the
+ * viewport. Ids without a matching element on the page are ignored, so the
+ * same nav can be rendered on pages that lack some sections.
+ */
+export function useActiveSection(sectionIds: readonly string[]): string | null {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const key = sectionIds.join(",");
+
+  useEffect(() => {
+    const elements = key
+      .split(",")
+      .map((id) => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null);
+
+    if (elements.length === 0) {
+      return;
+    }
+
+    const visible = new Map<string, number>();
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            visible.set(entry.target.id, entry.boundingClientRect.top);
+          } else {
+            visible.delete(entry.target.id);
+          }
+        }
+
+        const [topmost] = [...visible.entries()].sort((a, b) => a[1] - b[1]);
+        setActiveId(topmost ? topmost[0] : null);
+      },
+      { rootMargin: "-33% 0px -50% 0px" },
+    );
+
+    elements.forEach((element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, [key]);
+
+  return activeId;
+}
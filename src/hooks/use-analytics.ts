@@ -0,0 +1,85 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useEffect, useRef } from "react";
+import {
+  CTA_ATTRIBUTE,
+  CTA_IDS,
+  PLACEMENT_ATTRIBUTE,
+  PRODUCT_ATTRIBUTE,
+  type CtaId,
+} from "@/lib/analytics/attributes";
+import { track } from "@/lib/analytics/client";
+
+function isCtaId(value: string): value is CtaId {
+  return (CTA_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * The referrer's origin when the visitor came from another site.
+ */
+function externalReferrer(): string | undefined {
+  try {
+    const referrer = new URL(document.referrer);
+    return referrer.origin === window.location.origin
+      ? undefined
+      : referrer.origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Page views on every route change, plus CTA and outbound product link
+ * clicks through one delegated listener on elements marked with
+ * `ctaAttributes` / `outboundProductAttributes`.
+ */
+export function useAnalytics() {
+  const pathname = usePathname();
+  const isFirstView = useRef(true);
+
+  useEffect(() => {
+    const referrer = isFirstView.current ? externalReferrer() : undefined;
+    isFirstView.current = false;
+    track({ type: "page_view", path: pathname, ...(referrer && { referrer }) });
+  }, [pathname]);
+
+  useEffect(() => {
+    function handleClick(event: MouseEvent) {
+      if (!(event.target instanceof Element)) {
+        return;
+      }
+      const path = window.location.pathname;
+
+      const cta = event.target.closest(`[${CTA_ATTRIBUTE}]`);
+      const ctaId = cta?.getAttribute(CTA_ATTRIBUTE);
+      if (cta && ctaId && isCtaId(ctaId)) {
+        const placement = cta.getAttribute(PLACEMENT_ATTRIBUTE);
+        track({
+          type: "cta_click",
+          path,
+          cta: ctaId,
+          ...(placement && { placement }),
+        });
+        return;
+      }
+
+      const link = event.target.closest<HTMLAnchorElement>(
+        `a[${PRODUCT_ATTRIBUTE}]`,
+      );
+      if (link) {
+        const product = link.getAttribute(PRODUCT_ATTRIBUTE);
+        track({
+          type: "outbound_click",
+          path,
+          href: link.href,
+          ...(product && { product }),
+        });
+      }
+    }
+
+    document.addEventListener("click", handleClick, { capture: true });
+    return () =>
+      document.removeEventListener("click", handleClick, { capture: true });
+  }, []);
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import type { ApiResponse } from "@/lib/api/response";
+import {
+  FORM_TOKEN_FIELD,
+  HONEYPOT_FIELD,
+  type BotFields,
+  type FormTokenData,
+} from "@/lib/forms/bot-fields";
+
+/** An empty token on failure; the server then rejects the submission. */
+async function fetchFormToken(): Promise<string> {
+  try {
+    const response = await fetch("/api/forms/token", { cache: "no-store" });
+    const result = (await response.json()) as ApiResponse<FormTokenData>;
+    return result.success ? result.data.token : "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Client half of `checkBotFields`: props for a hidden honeypot input and a
+ * function resolving the fields to merge into the request body. The form
+ * token is fetched when the form mounts, so the server times the fill from
+ * then. If that fetch failed, submitting fetches another one; that attempt
+ * is too fast, but the next one goes through.
+ */
+export function useBotFields() {
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const tokenRef = useRef<Promise<string> | null>(null);
+
+  useEffect(() => {
+    tokenRef.current = fetchFormToken();
+  }, []);
+
+  const getBotFields = useCallback(async (): Promise<BotFields> => {
+    let token = await (tokenRef.current ??= fetchFormToken());
+    if (!token) {
+      tokenRef.current = fetchFormToken();
+      token = await tokenRef.current;
+    }
+
+    return {
+      [HONEYPOT_FIELD]: honeypotRef.current?.value ?? "",
+      [FORM_TOKEN_FIELD]: token,
+    };
+  }, []);
+
+  const honeypotProps = {
+    ref: honeypotRef,
+    name: HONEYPOT_FIELD,
+    type: "text",
+    tabIndex: -1,
+    autoComplete: "off",
+    defaultValue: "",
+  } as const;
+
+  return { honeypotProps, getBotFields };
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type {
+  ConsentCategory,
+  ConsentChoices,
+  ConsentState,
+} from "@/lib/consent/consent";
+
+export interface ConsentContextValue {
+  /** null until the visitor has made a choice. */
+  consent: ConsentState | null;
+  hasConsent(category: ConsentCategory): boolean;
+  acceptAll(): void;
+  rejectAll(): void;
+  save(choices: ConsentChoices): void;
+  /** Open the settings dialog, e.g. from the footer. */
+  openSettings(): void;
+}
+
+export const ConsentContext = createContext<ConsentContextValue | null>(null);
+
+export function useConsent(): ConsentContextValue {
+  const context = useContext(ConsentContext);
+  if (!context) {
+    throw new Error("useConsent must be used within a ConsentProvider");
+  }
+  return context;
+}
@@ -0,0 +1,27 @@
+/**
+ * Runs once when a server instance starts, before it handles requests.
+ *
+ * Register production adapters here, then resolve them and check the token
+ * secrets, so a deployment missing any of them fails at startup rather than
+ * on its first submission.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getContactDeliveryAdapter } = await import(
+      "@/lib/contact/delivery"
+    );
+    const { assertFormTokenSecret } = await import(
+      "@/lib/forms/bot-protection"
+    );
+    const { getConfirmationSender } = await import(
+      "@/lib/subscribe/confirmation"
+    );
+    const { getSubscriberStore } = await import("@/lib/subscribe/store");
+    const { assertTokenSecret } = await import("@/lib/subscribe/token");
+    getContactDeliveryAdapter();
+    getSubscriberStore();
+    getConfirmationSender();
+    assertTokenSecret();
+    assertFormTokenSecret();
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./milestones";
+export * from "./team";
+export * from "./types";
@@ -0,0 +1,47 @@
+import type { Milestone } from "./types";
+
+/**
+ * PLACEHOLDER: the dates and events below have not been confirmed and must
+ * not ship. Production builds leave the timeline off `/about` until
+ * confirmed history replaces them and this flag is set to `false`.
+ */
+export const MILESTONES_ARE_PLACEHOLDER = true;
+
+/**
+ * Company history for the `/about` timeline, oldest first.
+ */
+export const milestones: readonly Milestone[] = [
+  {
+    date: "2025",
+    title: {
+      en: "IntensityMagic begins",
+      es: "Nace IntensityMagic",
+    },
+    description: {
+      en: "Intensity Ventures starts building software by end users for end users, beginning with problems we'd run into ourselves.",
+      es: "Intensity Ventures empieza a crear software de usuarios para usuarios, comenzando por problemas que nosotros mismos habíamos vivido.",
+    },
+  },
+  {
+    date: "2025",
+    title: {
+      en: "MedicareMagic and AuthorMagic go live",
+      es: "MedicareMagic y AuthorMagic entran en servicio",
+    },
+    description: {
+      en: "Our first two products launch: plain-language Medicare guidance, and a home base for authors.",
+      es: "Lanzamos nuestros dos primeros productos: orientación sobre Medicare en lenguaje sencillo y un espacio central para autores.",
+    },
+  },
+  {
+    date: "2025-09",
+    title: {
+      en: "The blog launches",
+      es: "Lanzamos el blog",
+    },
+    description: {
+      en: "A place to share release notes and what we learn from the people using our products.",
+      es: "Un espacio para compartir novedades y lo que aprendemos de quienes usan nuestros productos.",
+    },
+  },
+];
@@ -0,0 +1,29 @@
+import type { TeamMember } from "./types";
+
+/**
+ * PLACEHOLDER: the entries below have not been confirmed by the people they
+ * describe and must not ship. Production builds leave the team section and
+ * its structured data off `/about` until confirmed copy replaces them and
+ * this flag is set to `false`.
+ */
+export const TEAM_IS_PLACEHOLDER = true;
+
+/**
+ * The people behind IntensityMagic, in display order. Each entry renders a
+ * card on `/about` and a schema.org `Person`.
+ */
+export const team: readonly TeamMember[] = [
+  {
+    id: "brad-feld",
+    name: "Brad Feld",
+    role: {
+      en: "Founder",
+      es: "Fundador",
+    },
+    bio: {
+      en: "Brad has spent decades as an entrepreneur and early-stage investor. He started IntensityMagic to build the software he and the people around him wished already existed.",
+      es: "Brad lleva décadas como emprendedor e inversionista en empresas emergentes. Fundó IntensityMagic para crear el software que él y las personas a su alrededor habrían querido tener.",
+    },
+    links: ["https://github.com/bradfeld"],
+  },
+];
@@ -0,0 +1,20 @@
+import type { Localized } from "@/lib/i18n/config";
+
+export interface TeamMember {
+  /** Stable id, used for anchors and the structured data `@id`. */
+  id: string;
+  name: string;
+  role: Localized;
+  bio: Localized;
+  /** Photo under `public/`. Without one, the avatar shows initials. */
+  avatar?: { src: string };
+  /** Profiles for structured data `sameAs`. */
+  links?: string[];
+}
+
+export interface Milestone {
+  /** `YYYY` or `YYYY-MM`; rendered at the precision given. */
+  date: string;
+  title: Localized;
+  description: Localized;
+}
@@ -0,0 +1,25 @@
+/**
+ * Data attributes picked up by the delegated click listener in
+ * `useAnalytics`. Server components can spread these onto plain elements
+ * without becoming client components:
+ *
+ *   <button {...ctaAttributes("get_started", "hero")}>
+ */
+
+/** Kept here rather than in the zod schema so the client listener stays light. */
+export const CTA_IDS = ["get_started", "explore_products"] as const;
+
+export type CtaId = (typeof CTA_IDS)[number];
+
+export const CTA_ATTRIBUTE = "data-analytics-cta";
+export const PLACEMENT_ATTRIBUTE = "data-analytics-placement";
+export const PRODUCT_ATTRIBUTE = "data-analytics-product";
+
+export function ctaAttributes(cta: CtaId, placement: string) {
+  return { [CTA_ATTRIBUTE]: cta, [PLACEMENT_ATTRIBUTE]: placement };
+}
+
+/** For links that leave the site for a product's own domain. */
+export function outboundProductAttributes(productSlug: string) {
+  return { [PRODUCT_ATTRIBUTE]: productSlug };
+}
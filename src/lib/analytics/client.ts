@@ -0,0 +1,30 @@
+import { hasOptOutSignal } from "./privacy";
+import type { AnalyticsEvent } from "./schema";
+
+export const EVENTS_ENDPOINT = "/api/events";
+
+/**
+ * Send one event to `/api/events`. Uses `sendBeacon` so clicks that navigate
+ * away still get delivered, with a `keepalive` fetch as the fallback.
+ * Does nothing when the browser sends Do-Not-Track or GPC.
+ */
+export function track(event: AnalyticsEvent): void {
+  if (hasOptOutSignal()) {
+    return;
+  }
+
+  const body = JSON.stringify({ events: [event] });
+
+  if (navigator.sendBeacon?.(EVENTS_ENDPOINT, body)) {
+    return;
+  }
+
+  void fetch(EVENTS_ENDPOINT, {
+    method: "POST",
+    body,
+    keepalive: true,
+    headers: { "Content-Type": "application/json" },
+  }).catch(() => {
+    // Analytics must never surface errors to visitors.
+  });
+}
@@ -0,0 +1,20 @@
+/**
+ * Do-Not-Track and Global Privacy Control. Checked in the browser before
+ * anything is sent, and again on the server in case a client ignores them.
+ */
+
+export function hasOptOutHeaders(headers: Headers): boolean {
+  return headers.get("dnt") === "1" || headers.get("sec-gpc") === "1";
+}
+
+interface PrivacyNavigator extends Navigator {
+  globalPrivacyControl?: boolean;
+}
+
+export function hasOptOutSignal(): boolean {
+  if (typeof navigator === "undefined") {
+    return true;
+  }
+  const nav = navigator as PrivacyNavigator;
+  return nav.doNotTrack === "1" || nav.globalPrivacyControl === true;
+}
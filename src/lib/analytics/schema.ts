@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { CTA_IDS } from "./attributes";
+
+/**
+ * First-party analytics events, shared by the client tracker and
+ * `/api/events`. Paths are pathnames only; query strings are never sent.
+ */
+
+const pathname = z.string().startsWith("/").max(300);
+
+export const AnalyticsEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("page_view"),
+    path: pathname,
+    /** Referring origin only, and only when it's another site. */
+    referrer: z.string().url().max(300).optional(),
+  }),
+  z.object({
+    type: z.literal("cta_click"),
+    path: pathname,
+    cta: z.enum(CTA_IDS),
+    /** Where on the page the CTA sits, e.g. "nav" or "hero". */
+    placement: z.string().max(50).optional(),
+  }),
+  z.object({
+    type: z.literal("outbound_click"),
+    path: pathname,
+    href: z.string().url().max(500),
+    product: z.string().max(100).optional(),
+  }),
+]);
+
+export const AnalyticsBatchSchema = z.object({
+  events: z.array(AnalyticsEventSchema).min(1).max(20),
+});
+
+export type AnalyticsEvent = z.infer<typeof AnalyticsEventSchema>;
+export type AnalyticsBatch = z.infer<typeof AnalyticsBatchSchema>;
@@ -0,0 +1,62 @@
+import { logger } from "@/lib/utils/logger-enhanced";
+import type { AnalyticsEvent } from "./schema";
+
+/**
+ * Analytics event storage.
+ *
+ * `/api/events` hands each accepted batch to the active store. The default
+ * writes events through `logger.analytics`, so they land wherever the log
+ * sinks send them. Swap in a database or warehouse with `setAnalyticsStore`.
+ */
+
+export type StoredAnalyticsEvent = AnalyticsEvent & {
+  receivedAt: string;
+  /** Salted daily hash; see `src/lib/analytics/visitor.ts`. */
+  visitorId: string;
+  deviceClass: DeviceClass;
+};
+
+export type DeviceClass = "mobile" | "tablet" | "desktop" | "bot";
+
+export interface AnalyticsStore {
+  readonly name: string;
+  record(events: StoredAnalyticsEvent[]): Promise<void>;
+}
+
+export function createLogAnalyticsStore(): AnalyticsStore {
+  return {
+    name: "log",
+    async record(events) {
+      for (const { type, ...data } of events) {
+        logger.analytics(type, { context: "Analytics:Site", ...data });
+      }
+    },
+  };
+}
+
+export function createMemoryAnalyticsStore(): AnalyticsStore & {
+  readonly events: StoredAnalyticsEvent[];
+} {
+  const events: StoredAnalyticsEvent[] = [];
+
+  return {
+    name: "memory",
+    events,
+    async record(batch) {
+      events.push(...batch);
+    },
+  };
+}
+
+let activeStore: AnalyticsStore | null = null;
+
+export function getAnalyticsStore(): AnalyticsStore {
+  if (!activeStore) {
+    activeStore = createLogAnalyticsStore();
+  }
+  return activeStore;
+}
+
+export function setAnalyticsStore(store: AnalyticsStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,47 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { DeviceClass } from "./store";
+
+/**
+ * Anonymous visitor ids without cookies or stored IPs.
+ *
+ * The id is a hash of a secret salt, the current UTC date, the client IP and
+ * the user agent. It is stable for a day, so unique visitors can be counted,
+ * then changes; the IP itself is never stored or logged. Set
+ * `ANALYTICS_SALT` so ids agree across instances; without it each process
+ * uses its own random salt.
+ */
+
+let processSalt: string | null = null;
+
+function getSalt(): string {
+  if (process.env.ANALYTICS_SALT) {
+    return process.env.ANALYTICS_SALT;
+  }
+  processSalt ??= randomBytes(32).toString("hex");
+  return processSalt;
+}
+
+export function hashVisitor(
+  ip: string,
+  userAgent: string,
+  now = new Date(),
+): string {
+  const day = now.toISOString().slice(0, 10);
+  return createHash("sha256")
+    .update(`${getSalt()}|${day}|${ip}|${userAgent}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function getDeviceClass(userAgent: string): DeviceClass {
+  if (/bot|crawler|spider|crawling|headless/i.test(userAgent)) {
+    return "bot";
+  }
+  if (/ipad|tablet|(android(?!.*mobile))/i.test(userAgent)) {
+    return "tablet";
+  }
+  if (/mobi|iphone|ipod|android/i.test(userAgent)) {
+    return "mobile";
+  }
+  return "desktop";
+}
@@ -0,0 +1,245 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import { logger } from "@/lib/utils/logger-enhanced";
+
+/**
+ * Standardized API responses.
+ *
+ * Every route returns the same envelope so clients can branch on `success`
+ * and trace a request by `metadata.requestId`. See
+ * docs/standards/API_STANDARDS.md.
+ */
+
+export const HttpStatus = {
+  OK: 200,
+  CREATED: 201,
+  ACCEPTED: 202,
+  NO_CONTENT: 204,
+  NOT_MODIFIED: 304,
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  CONFLICT: 409,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
+  INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
+  SERVICE_UNAVAILABLE: 503,
+} as const;
+
+export interface ApiMetadata {
+  timestamp: string;
+  requestId?: string;
+}
+
+export interface ApiSuccessResponse<T> {
+  success: true;
+  data: T;
+  metadata: ApiMetadata;
+}
+
+export interface ApiErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+  details?: unknown;
+  metadata: ApiMetadata;
+}
+
+export type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
+
+/**
+ * One entry per zod issue, returned as `details.issues` on
+ * `VALIDATION_ERROR` responses. `field` is the dotted path ("" for the root).
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  code: string;
+}
+
+export interface ValidationErrorDetails {
+  issues: ValidationIssue[];
+}
+
+function buildMetadata(requestId?: string): ApiMetadata {
+  return {
+    timestamp: new Date().toISOString(),
+    ...(requestId && { requestId }),
+  };
+}
+
+export function apiSuccess<T>(
+  data: T,
+  status: number = HttpStatus.OK,
+  requestId?: string,
+): NextResponse<ApiSuccessResponse<T>> {
+  return NextResponse.json(
+    { success: true, data, metadata: buildMetadata(requestId) },
+    { status },
+  );
+}
+
+/**
+ * Build an error response and log it under `context`: server errors at
+ * `error`, client errors at `warn`.
+ */
+export function apiError(
+  message: string,
+  status: number,
+  code: string,
+  details?: unknown,
+  requestId?: string,
+  context = "API",
+): NextResponse<ApiErrorResponse> {
+  const log = status >= 500 ? logger.error : logger.warn;
+  log.call(logger, message, {
+    context,
+    ...(requestId && { requestId }),
+    status,
+    code,
+  });
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      code,
+      ...(details !== undefined && { details }),
+      metadata: buildMetadata(requestId),
+    },
+    { status },
+  );
+}
+
+export function formatZodError(error: z.ZodError): ValidationErrorDetails {
+  return {
+    issues: error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    })),
+  };
+}
+
+/**
+ * Pre-defined errors for the common cases.
+ */
+export const ApiErrors = {
+  unauthorized: (requestId?: string) =>
+    apiError(
+      "Authentication required",
+      HttpStatus.UNAUTHORIZED,
+      "UNAUTHORIZED",
+      undefined,
+      requestId,
+    ),
+
+  forbidden: (requestId?: string) =>
+    apiError(
+      "You do not have permission to perform this action",
+      HttpStatus.FORBIDDEN,
+      "FORBIDDEN",
+      undefined,
+      requestId,
+    ),
+
+  notFound: (resource = "Resource", requestId?: string) =>
+    apiError(
+      `${resource} not found`,
+      HttpStatus.NOT_FOUND,
+      "NOT_FOUND",
+      undefined,
+      requestId,
+    ),
+
+  validationError: (details?: unknown, requestId?: string) =>
+    apiError(
+      "Validation failed",
+      HttpStatus.BAD_REQUEST,
+      "VALIDATION_ERROR",
+      details,
+      requestId,
+    ),
+
+  methodNotAllowed: (allowed: string, requestId?: string) => {
+    const response = apiError(
+      "Method not allowed",
+      HttpStatus.METHOD_NOT_ALLOWED,
+      "METHOD_NOT_ALLOWED",
+      { allowed },
+      requestId,
+    );
+    response.headers.set("Allow", allowed);
+    return response;
+  },
+
+  conflict: (message = "Resource already exists", requestId?: string) =>
+    apiError(message, HttpStatus.CONFLICT, "CONFLICT", undefined, requestId),
+
+  /**
+   * `retryAfter` is in seconds and is also sent as the `Retry-After` header.
+   */
+  rateLimited: (retryAfter?: number, requestId?: string) => {
+    const response = apiError(
+      "Too many requests. Please try again later.",
+      HttpStatus.TOO_MANY_REQUESTS,
+      "RATE_LIMITED",
+      retryAfter !== undefined ? { retryAfter } : undefined,
+      requestId,
+    );
+    if (retryAfter !== undefined) {
+      response.headers.set("Retry-After", String(retryAfter));
+    }
+    return response;
+  },
+
+  internalError: (message = "Internal server error", requestId?: string) =>
+    apiError(
+      message,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      "INTERNAL_ERROR",
+      undefined,
+      requestId,
+    ),
+
+  serviceUnavailable: (service = "Service", requestId?: string) =>
+    apiError(
+      `${service} is temporarily unavailable`,
+      HttpStatus.SERVICE_UNAVAILABLE,
+      "SERVICE_UNAVAILABLE",
+      undefined,
+      requestId,
+    ),
+};
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse<ApiErrorResponse> };
+
+/**
+ * Validate untrusted input against a zod schema, returning either the parsed
+ * data or a ready-to-return `VALIDATION_ERROR` response.
+ */
+export function validateInput<S extends z.ZodTypeAny>(
+  schema: S,
+  input: unknown,
+  requestId?: string,
+): ValidationResult<z.infer<S>> {
+  const result = schema.safeParse(input);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    response: ApiErrors.validationError(
+      formatZodError(result.error),
+      requestId,
+    ),
+  };
+}
@@ -0,0 +1,171 @@
+import fs from "node:fs";
+import path from "node:path";
+import matter from "gray-matter";
+import { cache } from "react";
+import { getDeployEnvironment } from "@/lib/seo/site";
+import {
+  PostFrontmatterSchema,
+  isPostSlug,
+  type PostFrontmatter,
+} from "./schema";
+
+export const BLOG_DIR = path.join(process.cwd(), "content", "blog");
+
+const POST_EXTENSIONS = [".mdx", ".md"];
+
+const WORDS_PER_MINUTE = 200;
+
+const EXCERPT_LENGTH = 160;
+
+export interface Post extends Omit<PostFrontmatter, "summary"> {
+  slug: string;
+  /** The frontmatter summary, or the opening of the first paragraph. */
+  summary: string;
+  /** MDX source without the frontmatter. */
+  body: string;
+  readingTimeMinutes: number;
+}
+
+export interface TagSummary {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Rough reading time from the prose: code, markup and link targets are
+ * dropped before counting words.
+ */
+export function readingTime(body: string): number {
+  const words = body
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\]\([^)]*\)/g, "]")
+    .split(/\s+/)
+    .filter((word) => /\w/.test(word)).length;
+
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+/**
+ * Plain text from the first paragraph, cut at a word boundary.
+ */
+export function excerpt(body: string, maxLength = EXCERPT_LENGTH): string {
+  const paragraph =
+    body
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .find(
+        (block) => block !== "" && !/^(#|<|import |export |```)/.test(block),
+      ) ?? "";
+  const text = paragraph
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ");
+
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, text.lastIndexOf(" ", maxLength));
+  return `${cut.replace(/[\s.,;:]+$/, "")}…`;
+}
+
+function parsePostFile(fileName: string): Post {
+  const slug = path.basename(fileName, path.extname(fileName));
+  if (!isPostSlug(slug)) {
+    throw new Error(
+      `Invalid blog post file name "${fileName}": use lowercase letters, numbers and dashes`,
+    );
+  }
+
+  const source = fs.readFileSync(path.join(BLOG_DIR, fileName), "utf8");
+  const { data, content } = matter(source);
+  const result = PostFrontmatterSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(
+        (issue) =>
+          `  - ${issue.path.join(".") || "frontmatter"}: ${issue.message}`,
+      )
+      .join("\n");
+    throw new Error(
+      `Invalid frontmatter in content/blog/${fileName}:\n${issues}`,
+    );
+  }
+
+  return {
+    ...result.data,
+    slug,
+    summary: result.data.summary ?? excerpt(content),
+    body: content,
+    readingTimeMinutes: readingTime(content),
+  };
+}
+
+/**
+ * Drafts are listed everywhere except production, so they can be reviewed
+ * on preview deployments and locally.
+ */
+export function showDrafts(): boolean {
+  return getDeployEnvironment() !== "production";
+}
+
+/**
+ * Every visible post, newest first. Cached per request.
+ */
+export const getPosts = cache((): Post[] => {
+  if (!fs.existsSync(BLOG_DIR)) {
+    return [];
+  }
+
+  const includeDrafts = showDrafts();
+
+  return fs
+    .readdirSync(BLOG_DIR)
+    .filter((fileName) => POST_EXTENSIONS.includes(path.extname(fileName)))
+    .map(parsePostFile)
+    .filter((post) => includeDrafts || !post.draft)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+});
+
+export function getPostBySlug(slug: string): Post | undefined {
+  return getPosts().find((post) => post.slug === slug);
+}
+
+/**
+ * The posts either side of `slug`: `previous` is older, `next` is newer.
+ */
+export function getAdjacentPosts(slug: string): {
+  previous?: Post;
+  next?: Post;
+} {
+  const posts = getPosts();
+  const index = posts.findIndex((post) => post.slug === slug);
+  if (index === -1) {
+    return {};
+  }
+
+  const previous = posts[index + 1];
+  const next = posts[index - 1];
+  return { ...(previous && { previous }), ...(next && { next }) };
+}
+
+export function getPostsByTag(tag: string): Post[] {
+  return getPosts().filter((post) => post.tags.includes(tag));
+}
+
+/**
+ * Every tag in use, most used first.
+ */
+export function getTags(): TagSummary[] {
+  const counts = new Map<string, number>();
+  for (const post of getPosts()) {
+    for (const tag of post.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { getProductBySlug } from "@/lib/products";
+
+/**
+ * Blog post frontmatter.
+ *
+ * Posts are MDX files in `content/blog`, named `<slug>.mdx`. Every file is
+ * parsed with this schema when the blog is first read, so a typo in a date
+ * or an unknown product fails `next build` instead of publishing a broken
+ * page. Posts are written in English; every locale shows them marked
+ * `lang="en"`.
+ */
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const PostFrontmatterSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  /** Publication date; YAML dates and ISO strings are both accepted. */
+  date: z.coerce.date({ errorMap: () => ({ message: "Date must be a date" }) }),
+  author: z.string().min(1, "Author is required"),
+  /** One-sentence summary for the index, metadata and feeds. */
+  summary: z.string().min(1).optional(),
+  tags: z
+    .array(
+      z
+        .string()
+        .regex(
+          SLUG_PATTERN,
+          "Tags must be lowercase letters, numbers and dashes",
+        ),
+    )
+    .default([]),
+  /** Slug of the product the post is about, if any. */
+  product: z
+    .string()
+    .refine((slug) => getProductBySlug(slug) !== undefined, {
+      message: "Product must be a slug from the product registry",
+    })
+    .optional(),
+  draft: z.boolean().default(false),
+});
+
+export type PostFrontmatter = z.infer<typeof PostFrontmatterSchema>;
+
+export function isPostSlug(value: string): boolean {
+  return SLUG_PATTERN.test(value);
+}
@@ -0,0 +1,29 @@
+/**
+ * Build metadata, inlined at build time by `next.config.js`.
+ */
+
+export type DeployEnvironment = "development" | "preview" | "production";
+
+export interface BuildInfo {
+  version: string;
+  commitSha: string;
+  branch: string;
+  builtAt: string;
+  environment: DeployEnvironment;
+}
+
+function toEnvironment(value: string | undefined): DeployEnvironment {
+  return value === "preview" || value === "production" ? value : "development";
+}
+
+export const buildInfo: BuildInfo = {
+  version: process.env.NEXT_PUBLIC_APP_VERSION ?? "0.0.0",
+  commitSha: process.env.NEXT_PUBLIC_BUILD_SHA ?? "unknown",
+  branch: process.env.NEXT_PUBLIC_BUILD_BRANCH ?? "unknown",
+  builtAt: process.env.NEXT_PUBLIC_BUILD_TIME ?? "unknown",
+  environment: toEnvironment(process.env.NEXT_PUBLIC_DEPLOY_ENV),
+};
+
+export function shortSha(sha: string): string {
+  return sha === "unknown" ? sha : sha.slice(0, 7);
+}
@@ -0,0 +1,99 @@
+/**
+ * Cookie consent state.
+ *
+ * `necessary` is always on and isn't stored. The choice lives in a
+ * first-party cookie so the server can read it too: `/api/events` and
+ * `/api/vitals` drop events from visitors who haven't opted in to analytics.
+ * Pages are prerendered, so they read it in the browser instead.
+ */
+
+export const CONSENT_COOKIE = "im_consent";
+
+/** Bump when categories change so everyone is asked again. */
+export const CONSENT_VERSION = 1;
+
+const CONSENT_MAX_AGE_SECONDS = 180 * 24 * 60 * 60;
+
+/** Labels and descriptions live in the `consent` message catalog section. */
+export const CONSENT_CATEGORIES = [
+  "necessary",
+  "analytics",
+  "marketing",
+] as const;
+
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+export type OptionalConsentCategory = Exclude<ConsentCategory, "necessary">;
+
+export type ConsentChoices = Record<OptionalConsentCategory, boolean>;
+
+export interface ConsentState extends ConsentChoices {
+  version: number;
+  updatedAt: string;
+}
+
+export function createConsentState(choices: ConsentChoices): ConsentState {
+  return {
+    version: CONSENT_VERSION,
+    analytics: choices.analytics,
+    marketing: choices.marketing,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns null for a missing, malformed or outdated cookie, which means
+ * "not decided yet".
+ */
+export function parseConsentCookie(
+  value: string | undefined,
+): ConsentState | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(decodeURIComponent(value)) as Partial<
+      Record<keyof ConsentState, unknown>
+    >;
+    if (
+      parsed.version !== CONSENT_VERSION ||
+      typeof parsed.analytics !== "boolean" ||
+      typeof parsed.marketing !== "boolean" ||
+      typeof parsed.updatedAt !== "string"
+    ) {
+      return null;
+    }
+    return {
+      version: parsed.version,
+      analytics: parsed.analytics,
+      marketing: parsed.marketing,
+      updatedAt: parsed.updatedAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Finds and parses the consent cookie in `document.cookie`. */
+export function readConsentCookie(cookies: string): ConsentState | null {
+  const prefix = `${CONSENT_COOKIE}=`;
+  const entry = cookies.split("; ").find((cookie) => cookie.startsWith(prefix));
+  return parseConsentCookie(entry?.slice(prefix.length));
+}
+
+export function serializeConsentCookie(state: ConsentState): string {
+  const secure =
+    typeof location !== "undefined" && location.protocol === "https:"
+      ? "; Secure"
+      : "";
+  return `${CONSENT_COOKIE}=${encodeURIComponent(JSON.stringify(state))}; Path=/; Max-Age=${CONSENT_MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+}
+
+export function hasConsent(
+  state: ConsentState | null,
+  category: ConsentCategory,
+): boolean {
+  if (category === "necessary") {
+    return true;
+  }
+  return state?.[category] ?? false;
+}
@@ -0,0 +1,90 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ContactMessage } from "./schema";
+
+/**
+ * Contact message delivery.
+ *
+ * `/api/contact` hands validated messages to whichever adapter is active.
+ * In development the default adapter writes each message to a JSON file in a
+ * local outbox, so the form works without email credentials.
+ *
+ * Production needs a real transport (email, CRM, ticketing) registered with
+ * `setContactDeliveryAdapter` in `src/instrumentation.ts`. Serverless hosts
+ * such as Vercel have a read-only filesystem, so the file outbox is only
+ * used there when `CONTACT_OUTBOX_DIR` points at a writable directory.
+ * Otherwise the server refuses to start.
+ */
+
+export interface ContactSubmission extends ContactMessage {
+  id: string;
+  receivedAt: string;
+  requestId: string;
+}
+
+export interface ContactDeliveryAdapter {
+  readonly name: string;
+  deliver(submission: ContactSubmission): Promise<void>;
+}
+
+export function createContactSubmission(
+  message: ContactMessage,
+  requestId: string,
+): ContactSubmission {
+  return {
+    ...message,
+    id: randomUUID(),
+    receivedAt: new Date().toISOString(),
+    requestId,
+  };
+}
+
+/**
+ * Writes one `<receivedAt>-<id>.json` file per message.
+ * Defaults to `CONTACT_OUTBOX_DIR`, then `.outbox/contact` in the project.
+ */
+export function createFileOutboxAdapter(
+  directory = process.env.CONTACT_OUTBOX_DIR ??
+    path.join(process.cwd(), ".outbox", "contact"),
+): ContactDeliveryAdapter {
+  return {
+    name: "file-outbox",
+    async deliver(submission) {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${submission.receivedAt.replace(/[:.]/g, "-")}-${submission.id}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        `${JSON.stringify(submission, null, 2)}\n`,
+        "utf8",
+      );
+    },
+  };
+}
+
+// Route handlers and `src/instrumentation.ts` are bundled separately, so the
+// active adapter is kept on `globalThis` where both see the same one.
+const registry = globalThis as typeof globalThis & {
+  contactDeliveryAdapter?: ContactDeliveryAdapter;
+};
+
+export function getContactDeliveryAdapter(): ContactDeliveryAdapter {
+  if (!registry.contactDeliveryAdapter) {
+    if (
+      process.env.NODE_ENV === "production" &&
+      !process.env.CONTACT_OUTBOX_DIR
+    ) {
+      throw new Error(
+        "No contact delivery adapter is configured: register one with setContactDeliveryAdapter in src/instrumentation.ts, or set CONTACT_OUTBOX_DIR to a writable directory",
+      );
+    }
+    registry.contactDeliveryAdapter = createFileOutboxAdapter();
+  }
+  return registry.contactDeliveryAdapter;
+}
+
+export function setContactDeliveryAdapter(
+  adapter: ContactDeliveryAdapter,
+): void {
+  registry.contactDeliveryAdapter = adapter;
+}
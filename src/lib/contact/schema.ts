@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+/**
+ * Contact form schema, shared by the client form and `/api/contact`.
+ */
+export const ContactMessageSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Please tell us your name")
+    .max(100, "Name must be 100 characters or fewer"),
+  email: z.string().trim().email("Please enter a valid email address"),
+  subject: z
+    .string()
+    .trim()
+    .max(150, "Subject must be 150 characters or fewer")
+    .optional(),
+  message: z
+    .string()
+    .trim()
+    .min(10, "Message must be at least 10 characters")
+    .max(5000, "Message must be 5000 characters or fewer"),
+});
+
+export type ContactMessage = z.infer<typeof ContactMessageSchema>;
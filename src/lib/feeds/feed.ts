@@ -0,0 +1,84 @@
+import { getPosts } from "@/lib/blog";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath } from "@/lib/i18n/paths";
+import type { Product } from "@/lib/products";
+import { lastModified } from "@/lib/seo/routes";
+import { SITE, absoluteUrl } from "@/lib/seo/site";
+import { FEED_FORMAT_NAMES, feedPath, type FeedFormat } from "./formats";
+
+/**
+ * Format-neutral feed, rendered to RSS, Atom or JSON Feed by the
+ * serializers. All URLs are absolute and point at production.
+ */
+export interface Feed {
+  title: string;
+  description: string;
+  /** BCP 47 language of the entries. */
+  language: string;
+  /** The HTML page the feed mirrors. */
+  homePageUrl: string;
+  /** Absolute URL of every format of this feed. */
+  feedUrls: Record<FeedFormat, string>;
+  /** Newest entry, or the build time for an empty feed. */
+  updated: Date;
+  items: FeedItem[];
+}
+
+export interface FeedItem {
+  /** Permanent id; the post URL. */
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  published: Date;
+  author: string;
+  tags: string[];
+}
+
+function feedUrls(productSlug?: string): Record<FeedFormat, string> {
+  return Object.fromEntries(
+    FEED_FORMAT_NAMES.map((format) => [
+      format,
+      absoluteUrl(feedPath(format, productSlug)),
+    ]),
+  ) as Record<FeedFormat, string>;
+}
+
+/**
+ * Blog posts as a feed: every post, or only those about `product`. Posts
+ * are written in the default locale, so entries link there.
+ */
+export function buildFeed({ product }: { product?: Product } = {}): Feed {
+  const locale = DEFAULT_LOCALE;
+  const { blog } = getMessages(locale);
+
+  const items = getPosts()
+    .filter((post) => !product || post.product === product.slug)
+    .map((post): FeedItem => {
+      const url = absoluteUrl(localizePath(`/blog/${post.slug}`, locale));
+      return {
+        id: url,
+        url,
+        title: post.title,
+        summary: post.summary,
+        published: post.date,
+        author: post.author,
+        tags: post.tags,
+      };
+    });
+
+  return {
+    title: product
+      ? `${product.name} updates | ${SITE.name}`
+      : `${SITE.name} ${blog.title}`,
+    description: product ? product.tagline[locale] : blog.description,
+    language: locale,
+    homePageUrl: absoluteUrl(
+      localizePath(product ? `/products/${product.slug}` : "/blog", locale),
+    ),
+    feedUrls: feedUrls(product?.slug),
+    updated: items[0]?.published ?? lastModified(),
+    items,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Feed formats and where they're served. Every feed exists site-wide
+ * (`/feed.xml`) and per product (`/products/<slug>/feed.xml`).
+ */
+export const FEED_FORMATS = {
+  rss: {
+    file: "feed.xml",
+    contentType: "application/rss+xml",
+    label: "RSS",
+  },
+  atom: {
+    file: "atom.xml",
+    contentType: "application/atom+xml",
+    label: "Atom",
+  },
+  json: {
+    file: "feed.json",
+    contentType: "application/feed+json",
+    label: "JSON Feed",
+  },
+} as const;
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+export const FEED_FORMAT_NAMES = Object.keys(FEED_FORMATS) as FeedFormat[];
+
+/**
+ * Site-relative path of a feed, optionally scoped to one product.
+ */
+export function feedPath(format: FeedFormat, productSlug?: string): string {
+  const file = FEED_FORMATS[format].file;
+  return productSlug ? `/products/${productSlug}/${file}` : `/${file}`;
+}
@@ -0,0 +1,5 @@
+export * from "./feed";
+export * from "./formats";
+export * from "./links";
+export * from "./respond";
+export * from "./serialize";
@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import type { Product } from "@/lib/products";
+import { SITE, absoluteUrl } from "@/lib/seo/site";
+import { FEED_FORMATS, FEED_FORMAT_NAMES, feedPath } from "./formats";
+
+type AlternateTypes = NonNullable<NonNullable<Metadata["alternates"]>["types"]>;
+
+/**
+ * `<link rel="alternate">` entries so browsers and readers can discover the
+ * feeds from a page: the site-wide feeds, or one product's.
+ */
+export function feedAlternates(product?: Product): AlternateTypes {
+  const title = product ? `${product.name} updates` : `${SITE.name} Blog`;
+
+  return Object.fromEntries(
+    FEED_FORMAT_NAMES.map((format) => [
+      FEED_FORMATS[format].contentType,
+      [
+        {
+          url: absoluteUrl(feedPath(format, product?.slug)),
+          title: `${title} (${FEED_FORMATS[format].label})`,
+        },
+      ],
+    ]),
+  );
+}
@@ -0,0 +1,61 @@
+import { createHash } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { HttpStatus } from "@/lib/api/response";
+import type { Feed } from "./feed";
+import { FEED_FORMATS, type FeedFormat } from "./formats";
+import { FEED_RENDERERS } from "./serialize";
+
+/**
+ * Readers poll feeds, so let the CDN hold them for an hour and serve a
+ * stale copy while it refetches. Browsers and readers revalidate after 15
+ * minutes with the ETag or Last-Modified date.
+ */
+const FEED_CACHE_CONTROL =
+  "public, max-age=900, s-maxage=3600, stale-while-revalidate=86400";
+
+function isNotModified(request: NextRequest, etag: string, updated: Date) {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .some((tag) => tag.trim().replace(/^W\//, "") === etag);
+  }
+
+  const ifModifiedSince = Date.parse(
+    request.headers.get("if-modified-since") ?? "",
+  );
+  // HTTP dates have second precision.
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(updated.getTime() / 1000) <= Math.floor(ifModifiedSince / 1000)
+  );
+}
+
+/**
+ * Render `feed` as `format` with caching headers, or answer 304 when the
+ * reader's copy is current.
+ */
+export function feedResponse(
+  request: NextRequest,
+  format: FeedFormat,
+  feed: Feed,
+): Response {
+  const body = FEED_RENDERERS[format](feed);
+  const etag = `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+
+  const headers = new Headers({
+    "Cache-Control": FEED_CACHE_CONTROL,
+    ETag: etag,
+    "Last-Modified": feed.updated.toUTCString(),
+  });
+
+  if (isNotModified(request, etag, feed.updated)) {
+    return new Response(null, { status: HttpStatus.NOT_MODIFIED, headers });
+  }
+
+  headers.set(
+    "Content-Type",
+    `${FEED_FORMATS[format].contentType}; charset=utf-8`,
+  );
+  return new Response(body, { status: HttpStatus.OK, headers });
+}
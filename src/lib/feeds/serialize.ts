@@ -0,0 +1,110 @@
+import { SITE } from "@/lib/seo/site";
+import type { Feed } from "./feed";
+import type { FeedFormat } from "./formats";
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * RSS 2.0. Authors go in `dc:creator`, since RSS's own `<author>` must be
+ * an email address.
+ */
+export function renderRss(feed: Feed): string {
+  const items = feed.items
+    .map(
+      (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.id)}</guid>
+      <description>${escapeXml(item.summary)}</description>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(item.author)}</dc:creator>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>\n`).join("")}    </item>`,
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homePageUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>${feed.language}</language>
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items
+    .map(
+      (item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.published.toISOString()}</updated>
+    <summary>${escapeXml(item.summary)}</summary>
+    <author><name>${escapeXml(item.author)}</name></author>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>\n`).join("")}  </entry>`,
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">
+  <id>${escapeXml(feed.feedUrls.atom)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <updated>${feed.updated.toISOString()}</updated>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}"/>
+  <author><name>${escapeXml(SITE.name)}</name></author>
+${entries}
+</feed>
+`;
+}
+
+/**
+ * JSON Feed 1.1 (https://jsonfeed.org/version/1.1). Entries carry their
+ * summary as `content_text`, which the spec requires when there's no HTML.
+ */
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: feed.title,
+      home_page_url: feed.homePageUrl,
+      feed_url: feed.feedUrls.json,
+      description: feed.description,
+      language: feed.language,
+      authors: [{ name: SITE.name, url: SITE.url }],
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: item.summary,
+        content_text: item.summary,
+        date_published: item.published.toISOString(),
+        authors: [{ name: item.author }],
+        tags: item.tags,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+export const FEED_RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
@@ -0,0 +1,17 @@
+/**
+ * Field names for the bot checks, shared by the forms that send them and
+ * `bot-protection.ts`, which checks them on the server.
+ */
+
+export const HONEYPOT_FIELD = "website";
+export const FORM_TOKEN_FIELD = "formToken";
+
+export interface BotFields {
+  [HONEYPOT_FIELD]: string;
+  [FORM_TOKEN_FIELD]: string;
+}
+
+/** `GET /api/forms/token` response data. */
+export interface FormTokenData {
+  token: string;
+}
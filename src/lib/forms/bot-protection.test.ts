@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  FORM_TOKEN_FIELD,
+  FORM_TOKEN_TTL_MS,
+  HONEYPOT_FIELD,
+  MIN_FILL_TIME_MS,
+  checkBotFields,
+  createFormToken,
+} from "./bot-protection";
+
+const issuedAt = 1_700_000_000_000;
+
+function fields(overrides: Record<string, unknown> = {}) {
+  return {
+    [HONEYPOT_FIELD]: "",
+    [FORM_TOKEN_FIELD]: createFormToken(issuedAt),
+    ...overrides,
+  };
+}
+
+describe("checkBotFields", () => {
+  it("passes a person who took long enough", () => {
+    assert.deepEqual(checkBotFields(fields(), issuedAt + MIN_FILL_TIME_MS), {
+      passed: true,
+    });
+  });
+
+  it("rejects a filled honeypot", () => {
+    assert.deepEqual(
+      checkBotFields(
+        fields({ [HONEYPOT_FIELD]: "https://spam.example" }),
+        issuedAt + 10_000,
+      ),
+      { passed: false, reason: "honeypot" },
+    );
+  });
+
+  it("ignores a honeypot holding only whitespace", () => {
+    assert.equal(
+      checkBotFields(fields({ [HONEYPOT_FIELD]: "  " }), issuedAt + 10_000)
+        .passed,
+      true,
+    );
+  });
+
+  it("rejects a submission faster than the minimum fill time", () => {
+    assert.deepEqual(
+      checkBotFields(fields(), issuedAt + MIN_FILL_TIME_MS - 1),
+      { passed: false, reason: "too-fast" },
+    );
+  });
+
+  it("ignores a client-reported fill time", () => {
+    assert.deepEqual(
+      checkBotFields(fields({ formFillMs: 60_000 }), issuedAt + 500),
+      { passed: false, reason: "too-fast" },
+    );
+  });
+
+  it("rejects a missing token", () => {
+    assert.deepEqual(
+      checkBotFields({ [HONEYPOT_FIELD]: "" }, issuedAt + 10_000),
+      { passed: false, reason: "missing-token" },
+    );
+    assert.deepEqual(checkBotFields(null, issuedAt + 10_000), {
+      passed: false,
+      reason: "missing-token",
+    });
+  });
+
+  it("rejects a token with a backdated issue time", () => {
+    const [, signature] = createFormToken(issuedAt).split(".");
+    const backdated = `${issuedAt - 60_000}.${signature}`;
+
+    assert.deepEqual(
+      checkBotFields(fields({ [FORM_TOKEN_FIELD]: backdated }), issuedAt),
+      { passed: false, reason: "invalid-token" },
+    );
+  });
+
+  it("rejects malformed tokens", () => {
+    for (const token of ["nope", "123", "abc.def", `${issuedAt}.x.y`]) {
+      assert.deepEqual(
+        checkBotFields(
+          fields({ [FORM_TOKEN_FIELD]: token }),
+          issuedAt + 10_000,
+        ),
+        { passed: false, reason: "invalid-token" },
+        token,
+      );
+    }
+  });
+
+  it("rejects a token past its lifetime", () => {
+    assert.deepEqual(
+      checkBotFields(fields(), issuedAt + FORM_TOKEN_TTL_MS + 1),
+      { passed: false, reason: "expired-token" },
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { FORM_TOKEN_FIELD, HONEYPOT_FIELD } from "./bot-fields";
+
+export * from "./bot-fields";
+
+/**
+ * Cheap bot checks for public forms.
+ *
+ * Forms render a honeypot input that people never see, and fetch a form
+ * token from `/api/forms/token` when they mount. The token is the server
+ * time it was issued, signed with `FORM_TOKEN_SECRET`, so the fill time is
+ * measured on the server's clock and a client can't claim it took longer.
+ * Submissions that fill the honeypot, carry no valid token, or arrive faster
+ * than a person could type are rejected before validation. Both fields sit
+ * outside the form schemas so they never reach stored data.
+ */
+
+/** Faster than this from render to submit is not a person typing. */
+export const MIN_FILL_TIME_MS = 2_000;
+
+/** Older tokens are refused, so one fetched token can't be reused forever. */
+export const FORM_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type BotCheck =
+  | { passed: true }
+  | {
+      passed: false;
+      reason:
+        | "honeypot"
+        | "missing-token"
+        | "invalid-token"
+        | "expired-token"
+        | "too-fast";
+    };
+
+let devSecret: string | null = null;
+
+/**
+ * Production must configure a secret shared by every instance. Elsewhere a
+ * per-process secret is generated, so forms left open across a restart are
+ * rejected once.
+ */
+function getSecret(): string {
+  const secret = process.env.FORM_TOKEN_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("FORM_TOKEN_SECRET is not set");
+  }
+  devSecret ??= randomBytes(32).toString("hex");
+  return devSecret;
+}
+
+/**
+ * Throws when production has no secret. Called at startup, so a missing
+ * secret stops the server instead of rejecting every submission.
+ */
+export function assertFormTokenSecret(): void {
+  getSecret();
+}
+
+function sign(issuedAt: string): Buffer {
+  return createHmac("sha256", getSecret()).update(issuedAt).digest();
+}
+
+/**
+ * `<issuedAt>.<signature>`: the issue time in epoch milliseconds and an
+ * HMAC-SHA256 over it, base64url.
+ */
+export function createFormToken(now = Date.now()): string {
+  const issuedAt = String(now);
+  return `${issuedAt}.${sign(issuedAt).toString("base64url")}`;
+}
+
+export function checkBotFields(body: unknown, now = Date.now()): BotCheck {
+  const fields = (
+    typeof body === "object" && body !== null ? body : {}
+  ) as Partial<Record<string, unknown>>;
+
+  const honeypot = fields[HONEYPOT_FIELD];
+  if (typeof honeypot === "string" && honeypot.trim() !== "") {
+    return { passed: false, reason: "honeypot" };
+  }
+
+  const token = fields[FORM_TOKEN_FIELD];
+  if (typeof token !== "string" || token === "") {
+    return { passed: false, reason: "missing-token" };
+  }
+
+  const [issuedAt, signature, ...rest] = token.split(".");
+  if (!issuedAt || !signature || rest.length > 0 || !/^\d+$/.test(issuedAt)) {
+    return { passed: false, reason: "invalid-token" };
+  }
+  const expected = sign(issuedAt);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { passed: false, reason: "invalid-token" };
+  }
+
+  const age = now - Number(issuedAt);
+  if (age < MIN_FILL_TIME_MS) {
+    return { passed: false, reason: "too-fast" };
+  }
+  if (age > FORM_TOKEN_TTL_MS) {
+    return { passed: false, reason: "expired-token" };
+  }
+
+  return { passed: true };
+}
@@ -0,0 +1,22 @@
+import type { Messages } from "@/lib/i18n/messages";
+
+/**
+ * The message a form shows when its API call fails, in the visitor's
+ * language. API error strings are English, so forms branch on the stable
+ * `code` instead.
+ */
+export function submitErrorMessage(
+  code: string,
+  messages: Messages["forms"],
+): string {
+  switch (code) {
+    case "VALIDATION_ERROR":
+      return messages.invalid;
+    case "SUBMISSION_REJECTED":
+      return messages.rejected;
+    case "RATE_LIMITED":
+      return messages.rateLimited;
+    default:
+      return messages.failed;
+  }
+}
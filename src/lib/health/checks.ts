@@ -0,0 +1,143 @@
+import { buildInfo } from "@/lib/build-info";
+import type { HealthCheck } from "./types";
+
+/**
+ * Built-in checks. Each factory returns a plain `HealthCheck` so callers can
+ * register as many instances as they need.
+ */
+
+export function createEnvCheck(required: string[]): HealthCheck {
+  return {
+    name: "env",
+    scope: "readiness",
+    run() {
+      if (required.length === 0) {
+        return {
+          status: "skipped",
+          message: "No required environment variables configured",
+        };
+      }
+
+      const missing = required.filter((name) => !process.env[name]);
+
+      return missing.length === 0
+        ? { status: "pass", details: { required: required.length } }
+        : {
+            status: "fail",
+            message: "Missing required environment variables",
+            details: { missing },
+          };
+    },
+  };
+}
+
+export function createBuildCheck(): HealthCheck {
+  return {
+    name: "build",
+    scope: "liveness",
+    critical: false,
+    run() {
+      if (buildInfo.commitSha === "unknown") {
+        return { status: "skipped", message: "Commit SHA not available" };
+      }
+
+      return {
+        status: "pass",
+        details: {
+          version: buildInfo.version,
+          commitSha: buildInfo.commitSha,
+          environment: buildInfo.environment,
+        },
+      };
+    },
+  };
+}
+
+export function createUptimeCheck(): HealthCheck {
+  return {
+    name: "uptime",
+    scope: "liveness",
+    run() {
+      return {
+        status: "pass",
+        details: { uptimeSeconds: Math.round(process.uptime()) },
+      };
+    },
+  };
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Fails when resident memory exceeds `limitMb`; reports usage only when no
+ * limit is configured.
+ */
+export function createMemoryCheck(limitMb?: number): HealthCheck {
+  return {
+    name: "memory",
+    scope: "liveness",
+    run() {
+      const usage = process.memoryUsage();
+      const rssMb = Math.round(usage.rss / BYTES_PER_MB);
+      const details = {
+        rssMb,
+        heapUsedMb: Math.round(usage.heapUsed / BYTES_PER_MB),
+        heapTotalMb: Math.round(usage.heapTotal / BYTES_PER_MB),
+        ...(limitMb !== undefined && { limitMb }),
+      };
+
+      if (limitMb !== undefined && rssMb > limitMb) {
+        return {
+          status: "fail",
+          message: `Resident memory ${rssMb}MB exceeds ${limitMb}MB`,
+          details,
+        };
+      }
+      return { status: "pass", details };
+    },
+  };
+}
+
+export interface HttpProbeOptions {
+  name: string;
+  url: string | undefined;
+  critical?: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * Probe a downstream dependency with a GET request. Skipped when `url` is not
+ * configured; the request is aborted when the timeout elapses.
+ */
+export function createHttpProbe({
+  name,
+  url,
+  critical = false,
+  timeoutMs = 2000,
+}: HttpProbeOptions): HealthCheck {
+  return {
+    name,
+    scope: "readiness",
+    critical,
+    timeoutMs,
+    async run() {
+      if (!url) {
+        return { status: "skipped", message: "Probe URL not configured" };
+      }
+
+      const response = await fetch(url, {
+        method: "GET",
+        cache: "no-store",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      return response.ok
+        ? { status: "pass", details: { httpStatus: response.status } }
+        : {
+            status: "fail",
+            message: `Unexpected HTTP ${response.status}`,
+            details: { httpStatus: response.status },
+          };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { logger } from "@/lib/utils/logger-enhanced";
+import {
+  createBuildCheck,
+  createEnvCheck,
+  createHttpProbe,
+  createMemoryCheck,
+  createUptimeCheck,
+} from "./checks";
+import { createHealthRegistry } from "./registry";
+
+export * from "./checks";
+export * from "./registry";
+export * from "./types";
+
+/**
+ * Parse `name=url` pairs, e.g.
+ * `HEALTH_DEPENDENCIES="medicaremagic=https://medicaremagic.com/api/health"`.
+ * A repeated name keeps its first URL; the rest are logged and skipped so a
+ * config typo can't take the health endpoints down with it.
+ */
+function parseDependencies(value: string | undefined) {
+  const dependencies = new Map<string, string | undefined>();
+
+  for (const pair of (value ?? "").split(",")) {
+    if (!pair.trim()) {
+      continue;
+    }
+    const [rawName = "", url] = pair.split("=", 2);
+    const name = rawName.trim();
+    if (dependencies.has(name)) {
+      logger.warn("Skipping duplicate health dependency", {
+        context: "Health",
+        name,
+      });
+      continue;
+    }
+    dependencies.set(name, url?.trim());
+  }
+
+  return [...dependencies].map(([name, url]) => ({ name, url }));
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * The site's health registry, configured from the environment:
+ *
+ * - `HEALTH_REQUIRED_ENV`: comma-separated env vars that must be set
+ * - `HEALTH_MEMORY_LIMIT_MB`: resident memory ceiling
+ * - `HEALTH_DEPENDENCIES`: comma-separated `name=url` probes (non-critical)
+ */
+export const healthRegistry = createHealthRegistry();
+
+healthRegistry.register(createUptimeCheck());
+healthRegistry.register(
+  createMemoryCheck(parseNumber(process.env.HEALTH_MEMORY_LIMIT_MB)),
+);
+healthRegistry.register(createBuildCheck());
+healthRegistry.register(
+  createEnvCheck(parseList(process.env.HEALTH_REQUIRED_ENV)),
+);
+
+for (const { name, url } of parseDependencies(
+  process.env.HEALTH_DEPENDENCIES,
+)) {
+  healthRegistry.register(createHttpProbe({ name: `dependency:${name}`, url }));
+}
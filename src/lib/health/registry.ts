@@ -0,0 +1,101 @@
+import type {
+  CheckOutcome,
+  CheckResult,
+  HealthCheck,
+  HealthReport,
+  HealthScope,
+  HealthStatus,
+} from "./types";
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+function withTimeout(
+  check: HealthCheck,
+  timeoutMs: number,
+): Promise<CheckOutcome> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<CheckOutcome>((resolve) => {
+    timer = setTimeout(
+      () =>
+        resolve({ status: "fail", message: `Timed out after ${timeoutMs}ms` }),
+      timeoutMs,
+    );
+  });
+
+  const run = Promise.resolve()
+    .then(() => check.run())
+    .catch(
+      (error: unknown): CheckOutcome => ({
+        status: "fail",
+        message: error instanceof Error ? error.message : String(error),
+      }),
+    );
+
+  return Promise.race([run, timeout]).finally(() => clearTimeout(timer));
+}
+
+function aggregate(results: CheckResult[]): HealthStatus {
+  const failed = results.filter((result) => result.status === "fail");
+
+  if (failed.some((result) => result.critical)) {
+    return "fail";
+  }
+  return failed.length > 0 ? "degraded" : "pass";
+}
+
+export interface HealthRegistry {
+  register(check: HealthCheck): void;
+  list(scope: HealthScope): HealthCheck[];
+  run(scope: HealthScope): Promise<HealthReport>;
+}
+
+export function createHealthRegistry({
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: { timeoutMs?: number } = {}): HealthRegistry {
+  const checks = new Map<string, HealthCheck>();
+
+  const list = (scope: HealthScope) =>
+    [...checks.values()].filter(
+      (check) => scope === "readiness" || check.scope === "liveness",
+    );
+
+  return {
+    register(check) {
+      if (checks.has(check.name)) {
+        throw new Error(`Health check "${check.name}" is already registered`);
+      }
+      checks.set(check.name, check);
+    },
+
+    list,
+
+    async run(scope) {
+      const startedAt = performance.now();
+
+      const results = await Promise.all(
+        list(scope).map(async (check): Promise<CheckResult> => {
+          const checkStartedAt = performance.now();
+          const outcome = await withTimeout(
+            check,
+            check.timeoutMs ?? timeoutMs,
+          );
+
+          return {
+            name: check.name,
+            critical: check.critical ?? true,
+            latencyMs: Math.round(performance.now() - checkStartedAt),
+            ...outcome,
+          };
+        }),
+      );
+
+      return {
+        status: aggregate(results),
+        scope,
+        checks: results,
+        latencyMs: Math.round(performance.now() - startedAt),
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { HttpStatus, apiError, apiSuccess } from "@/lib/api/response";
+import { logger } from "@/lib/utils/logger-enhanced";
+import type { HealthRegistry } from "./registry";
+import type { HealthScope } from "./types";
+
+const CONTEXT = "API:Health";
+
+/**
+ * Run `scope` and wrap the report in the standard envelope: 200 when the
+ * report passes or is degraded, 503 when a critical check fails.
+ */
+export async function respondWithHealth(
+  registry: HealthRegistry,
+  scope: HealthScope,
+) {
+  const requestId = logger.generateRequestId();
+  const report = await registry.run(scope);
+
+  if (report.status === "fail") {
+    return apiError(
+      "Service unhealthy",
+      HttpStatus.SERVICE_UNAVAILABLE,
+      "SERVICE_UNAVAILABLE",
+      report,
+      requestId,
+      CONTEXT,
+    );
+  }
+
+  if (report.status === "degraded") {
+    logger.warn("Health report degraded", {
+      context: CONTEXT,
+      requestId,
+      scope,
+      failed: report.checks
+        .filter((check) => check.status === "fail")
+        .map((check) => check.name),
+    });
+  }
+
+  return apiSuccess(report, HttpStatus.OK, requestId);
+}
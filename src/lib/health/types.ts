@@ -0,0 +1,43 @@
+/**
+ * Health check types.
+ *
+ * A check reports `skipped` when it has nothing to verify (for example an
+ * optional probe with no URL configured). Only `critical` checks can turn
+ * the overall report into a 503.
+ */
+
+export type CheckStatus = "pass" | "fail" | "skipped";
+
+export type HealthStatus = "pass" | "degraded" | "fail";
+
+export type HealthScope = "liveness" | "readiness";
+
+export interface CheckOutcome {
+  status: CheckStatus;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthCheck {
+  name: string;
+  /** Liveness checks also run for readiness. */
+  scope: HealthScope;
+  /** A failing critical check fails the whole report. Defaults to true. */
+  critical?: boolean;
+  /** Defaults to the registry timeout. */
+  timeoutMs?: number;
+  run(): Promise<CheckOutcome> | CheckOutcome;
+}
+
+export interface CheckResult extends CheckOutcome {
+  name: string;
+  critical: boolean;
+  latencyMs: number;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  scope: HealthScope;
+  checks: CheckResult[];
+  latencyMs: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * Supported locales. Every page lives under `/[locale]`; the middleware
+ * redirects unprefixed paths to the visitor's best match.
+ *
+ * Kept free of catalogs and server APIs so client components can import it.
+ */
+export const LOCALES = ["en", "es"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * Copy kept in data modules rather than the catalogs, with a value for
+ * every locale.
+ */
+export type Localized<T = string> = Record<Locale, T>;
+
+/** Remembers the last locale a visitor browsed in, ahead of Accept-Language. */
+export const LOCALE_COOKIE = "im_locale";
+
+/** Each locale's name in its own language, for the language switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+/** `og:locale` values. */
+export const OPEN_GRAPH_LOCALES: Record<Locale, string> = {
+  en: "en_US",
+  es: "es_US",
+};
+
+export function isLocale(value: string | undefined | null): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
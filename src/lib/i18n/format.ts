@@ -0,0 +1,44 @@
+import type { Locale } from "./config";
+
+/**
+ * A calendar date in the locale's long style ("October 14, 2025",
+ * "14 de octubre de 2025"). Content dates are days, not instants, so they
+ * are formatted in UTC to avoid shifting by the server's time zone.
+ */
+export function formatDate(date: Date, locale: Locale): string {
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: "long",
+    timeZone: "UTC",
+  }).format(date);
+}
+
+/**
+ * A `YYYY` or `YYYY-MM` value at the precision given: "2025", or
+ * "September 2025" / "septiembre de 2025".
+ */
+export function formatYearMonth(value: string, locale: Locale): string {
+  const [year, month] = value.split("-").map(Number);
+  if (year === undefined || month === undefined) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  }).format(Date.UTC(year, month - 1));
+}
+
+/**
+ * Fill `{name}` placeholders. Unknown placeholders are left as they are so
+ * a missing value is visible rather than silently blank. Client components
+ * import it from here so the catalogs stay out of their bundles.
+ */
+export function formatMessage(
+  template: string,
+  values: Record<string, string | number>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder,
+  );
+}
@@ -0,0 +1,287 @@
+/**
+ * English strings, and the shape every other catalog must match: `Messages`
+ * is derived from this object, so a key missing from (or added only to)
+ * another locale fails the type-check.
+ *
+ * `{name}`-style placeholders are filled in with `formatMessage`.
+ */
+export const en = {
+  meta: {
+    title: "IntensityMagic | Software by End Users for End Users",
+    description:
+      "IntensityMagic builds intuitive software by end users for end users, including MedicareMagic and AuthorMagic.",
+  },
+  nav: {
+    products: "Products",
+    allProducts: "All products",
+    about: "About",
+    contact: "Contact",
+    getStarted: "Get Started",
+    menu: "Menu",
+    openMenu: "Open navigation menu",
+    closeMenu: "Close navigation menu",
+    language: "Change language",
+    main: "Main",
+    mobile: "Mobile",
+  },
+  theme: {
+    label: "Change color theme",
+    system: "System",
+    light: "Light",
+    dark: "Dark",
+  },
+  hero: {
+    titleLead: "Creating Software",
+    titleHighlight: "By End Users for End Users",
+    description:
+      "We build intuitive software solutions that empower users to achieve more, with less complexity and greater efficiency.",
+    cta: "Explore Products",
+  },
+  products: {
+    eyebrow: "Our Products",
+    title: "Designed for Real People",
+    description:
+      "Our suite of products is built with a focus on simplicity, efficiency, and user experience.",
+    learnMore: "Learn more about {name}",
+    status: {
+      live: "Live",
+      beta: "Beta",
+      "coming-soon": "Coming soon",
+    },
+  },
+  features: {
+    eyebrow: "Why Choose Us",
+    title: "Built With Users in Mind",
+    description:
+      "Our approach to software development puts the end user at the center of everything we do.",
+    userCentric: {
+      title: "User-Centric Design",
+      description:
+        "Every feature is designed with real user feedback, ensuring our products solve actual problems.",
+    },
+    intuitive: {
+      title: "Intuitive Experience",
+      description:
+        "We focus on creating software that feels natural and requires minimal learning curve.",
+    },
+    reliable: {
+      title: "Reliable & Secure",
+      description:
+        "Built with industry-leading security practices and a focus on reliability and uptime.",
+    },
+  },
+  contact: {
+    eyebrow: "Contact",
+    title: "Get in Touch",
+    description:
+      "Questions, feedback or ideas for our next product? We read every message.",
+  },
+  contactForm: {
+    name: "Name",
+    email: "Email",
+    subject: "Subject",
+    message: "Message",
+    submit: "Send message",
+    submitting: "Sending...",
+    sentTitle: "Thanks!",
+    sentDescription: "Your message is on its way. We'll get back to you soon.",
+    sendAnother: "Send another message",
+    errors: {
+      name: "Please tell us your name (100 characters or fewer)",
+      email: "Please enter a valid email address",
+      subject: "Subject must be 150 characters or fewer",
+      message: "Message must be between 10 and 5000 characters",
+    },
+  },
+  subscribe: {
+    title: "Get early access",
+    description:
+      "Join the waitlist and we'll email you when there's news about the products you pick.",
+    close: "Close",
+    loading: "Loading...",
+    email: "Email",
+    interests: "I'm interested in",
+    submit: "Join the waitlist",
+    submitting: "Signing up...",
+    sentTitle: "Check your inbox",
+    sentDescription:
+      "We sent a confirmation link to {email}. Click it to finish signing up.",
+    errors: {
+      email: "Please enter a valid email address",
+      products: "Choose at least one product",
+    },
+  },
+  forms: {
+    optional: "(optional)",
+    invalid: "Please check the highlighted fields.",
+    rejected: "Please take a moment to review the form and try again.",
+    rateLimited: "Too many attempts. Please wait a minute and try again.",
+    failed: "Something went wrong. Please try again.",
+    networkError: "We couldn't reach the server. Please try again.",
+  },
+  consent: {
+    bannerLabel: "Cookie consent",
+    banner:
+      "We use cookies to keep the site working and, with your permission, to understand which products visitors are interested in.",
+    customize: "Customize",
+    rejectAll: "Reject all",
+    acceptAll: "Accept all",
+    title: "Privacy settings",
+    description:
+      "Choose which cookies we may use. You can change this at any time from the footer.",
+    close: "Close",
+    alwaysOn: "(always on)",
+    save: "Save choices",
+    categories: {
+      necessary: {
+        label: "Necessary",
+        description:
+          "Keep the site working: theme, language, security and remembering this choice.",
+      },
+      analytics: {
+        label: "Analytics",
+        description:
+          "Anonymous page views and clicks that tell us which products people look at.",
+      },
+      marketing: {
+        label: "Marketing",
+        description:
+          "Measure campaigns and show relevant ads on other sites. We don't use any yet.",
+      },
+    },
+  },
+  productPage: {
+    visit: "Visit {name}",
+    preview: "Preview {name}",
+    features: "What {name} does for you",
+    faq: "Frequently asked questions",
+    cta: "Ready to try {name}?",
+  },
+  subscribeStatus: {
+    fallbackTitle: "Subscription",
+    confirmed: {
+      eyebrow: "Subscribed",
+      title: "You're on the list",
+      description:
+        "Thanks for confirming. We'll let you know as soon as there's news.",
+    },
+    expired: {
+      eyebrow: "Link expired",
+      title: "This link has expired",
+      description:
+        "Confirmation links are valid for 48 hours. Sign up again and we'll send a fresh one.",
+    },
+    invalid: {
+      eyebrow: "Invalid link",
+      title: "We couldn't confirm that link",
+      description:
+        "The link may be incomplete. Try copying it from the email again, or sign up again.",
+    },
+  },
+  blog: {
+    title: "Blog",
+    description:
+      "News, release notes and how-tos from the team behind MedicareMagic and AuthorMagic.",
+    eyebrow: "From the team",
+    tagTitle: "Posts tagged “{tag}”",
+    tagDescription: "Everything we've written about {tag}.",
+    tags: "Tags",
+    allPosts: "All posts",
+    readingTime: "{minutes} min read",
+    byAuthor: "By {author}",
+    draft: "Draft",
+    aboutProduct: "About {product}",
+    previous: "Previous post",
+    next: "Next post",
+    morePosts: "More posts",
+    feed: "Subscribe via RSS",
+    empty: "No posts yet. Check back soon.",
+    englishOnly: "This post is only available in English.",
+  },
+  about: {
+    title: "About",
+    description:
+      "Who we are, how we work, and why IntensityMagic builds software by end users for end users.",
+    eyebrow: "About us",
+    heading: "Software by End Users for End Users",
+    story:
+      "We build the tools we wish we'd had. Every IntensityMagic product starts with a problem someone on our team, or someone close to us, ran into in real life, and grows with feedback from the people who use it.",
+    philosophy: {
+      eyebrow: "Our philosophy",
+      title: "By end users, for end users",
+      description: "A few principles guide every product decision we make.",
+      listen: {
+        title: "Start with real problems",
+        description:
+          "We build for situations we've lived through, and we keep talking to the people who use our products long after launch.",
+      },
+      plain: {
+        title: "Say it plainly",
+        description:
+          "No jargon and no fine print. If something needs a manual, we haven't finished designing it.",
+      },
+      trust: {
+        title: "Earn trust",
+        description:
+          "We collect only what we need, explain what we do with it, and never use pressure to sell.",
+      },
+    },
+    team: {
+      eyebrow: "Team",
+      title: "The people behind the products",
+      description: "A small team that uses what it builds.",
+    },
+    timeline: {
+      eyebrow: "Our story",
+      title: "How we got here",
+      description: "The milestones so far.",
+    },
+    cta: {
+      title: "Have an idea for us?",
+      button: "Get in touch",
+    },
+  },
+  legal: {
+    eyebrow: "Legal",
+    effective: "Effective {date}",
+    version: "Version {number}",
+    englishOnly: "This document is only available in English.",
+    superseded: "This is an earlier version. It was replaced on {date}.",
+    viewCurrent: "View the current version",
+    history: "Version history",
+    current: "Current",
+    viewing: "Viewing",
+    view: "View",
+    changes: "What changed",
+    changesTitle: "Changes to the {title}",
+    changesDescription:
+      "What changed in the {title} between version {from} and version {to}.",
+    changeCount: "{added} words added, {removed} words removed",
+    compareWith: "Compare with",
+    added: "Added",
+    removed: "Removed",
+    backToVersion: "Back to version {number}",
+  },
+  notFound: {
+    title: "Page not found",
+    description: "We couldn't find what you were looking for.",
+  },
+  footer: {
+    products: "Products",
+    company: "Company",
+    aboutUs: "About Us",
+    blog: "Blog",
+    connect: "Connect",
+    contact: "Contact",
+    support: "Support",
+    copyright: "© 2025 Intensity Ventures. All rights reserved.",
+    language: "Language",
+    legal: "Legal",
+    privacySettings: "Privacy settings",
+  },
+  common: {
+    backHome: "Back to home",
+  },
+};
+
+export type Messages = typeof en;
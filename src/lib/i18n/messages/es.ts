@@ -0,0 +1,282 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  meta: {
+    title: "IntensityMagic | Software de usuarios para usuarios",
+    description:
+      "IntensityMagic crea software intuitivo, hecho por usuarios para usuarios, como MedicareMagic y AuthorMagic.",
+  },
+  nav: {
+    products: "Productos",
+    allProducts: "Todos los productos",
+    about: "Nosotros",
+    contact: "Contacto",
+    getStarted: "Comenzar",
+    menu: "Menú",
+    openMenu: "Abrir el menú de navegación",
+    closeMenu: "Cerrar el menú de navegación",
+    language: "Cambiar idioma",
+    main: "Principal",
+    mobile: "Móvil",
+  },
+  theme: {
+    label: "Cambiar el tema de color",
+    system: "Sistema",
+    light: "Claro",
+    dark: "Oscuro",
+  },
+  hero: {
+    titleLead: "Creamos software",
+    titleHighlight: "De usuarios para usuarios",
+    description:
+      "Desarrollamos soluciones de software intuitivas que ayudan a las personas a lograr más, con menos complicaciones y mayor eficiencia.",
+    cta: "Ver productos",
+  },
+  products: {
+    eyebrow: "Nuestros productos",
+    title: "Diseñados para personas reales",
+    description:
+      "Nuestros productos están pensados para ser sencillos, eficientes y fáciles de usar.",
+    learnMore: "Más información sobre {name}",
+    status: {
+      live: "Disponible",
+      beta: "Beta",
+      "coming-soon": "Próximamente",
+    },
+  },
+  features: {
+    eyebrow: "Por qué elegirnos",
+    title: "Pensado para los usuarios",
+    description:
+      "Nuestra forma de desarrollar software pone al usuario en el centro de todo lo que hacemos.",
+    userCentric: {
+      title: "Diseño centrado en el usuario",
+      description:
+        "Cada función nace de los comentarios de usuarios reales, para que nuestros productos resuelvan problemas reales.",
+    },
+    intuitive: {
+      title: "Experiencia intuitiva",
+      description:
+        "Creamos software que se siente natural y que se aprende a usar en poco tiempo.",
+    },
+    reliable: {
+      title: "Confiable y seguro",
+      description:
+        "Construido con las mejores prácticas de seguridad y con atención a la confiabilidad y la disponibilidad.",
+    },
+  },
+  contact: {
+    eyebrow: "Contacto",
+    title: "Escríbanos",
+    description:
+      "¿Preguntas, comentarios o ideas para nuestro próximo producto? Leemos todos los mensajes.",
+  },
+  contactForm: {
+    name: "Nombre",
+    email: "Correo electrónico",
+    subject: "Asunto",
+    message: "Mensaje",
+    submit: "Enviar mensaje",
+    submitting: "Enviando...",
+    sentTitle: "¡Gracias!",
+    sentDescription:
+      "Su mensaje está en camino. Le responderemos lo antes posible.",
+    sendAnother: "Enviar otro mensaje",
+    errors: {
+      name: "Indíquenos su nombre (100 caracteres como máximo)",
+      email: "Introduzca un correo electrónico válido",
+      subject: "El asunto no puede superar los 150 caracteres",
+      message: "El mensaje debe tener entre 10 y 5000 caracteres",
+    },
+  },
+  subscribe: {
+    title: "Acceso anticipado",
+    description:
+      "Únase a la lista de espera y le escribiremos cuando haya novedades sobre los productos que elija.",
+    close: "Cerrar",
+    loading: "Cargando...",
+    email: "Correo electrónico",
+    interests: "Me interesa",
+    submit: "Unirme a la lista de espera",
+    submitting: "Registrando...",
+    sentTitle: "Revise su bandeja de entrada",
+    sentDescription:
+      "Enviamos un enlace de confirmación a {email}. Haga clic en él para completar el registro.",
+    errors: {
+      email: "Introduzca un correo electrónico válido",
+      products: "Elija al menos un producto",
+    },
+  },
+  forms: {
+    optional: "(opcional)",
+    invalid: "Revise los campos marcados.",
+    rejected: "Revise el formulario con calma e inténtelo de nuevo.",
+    rateLimited: "Demasiados intentos. Espere un minuto e inténtelo de nuevo.",
+    failed: "Algo salió mal. Inténtelo de nuevo.",
+    networkError: "No pudimos conectar con el servidor. Inténtelo de nuevo.",
+  },
+  consent: {
+    bannerLabel: "Consentimiento de cookies",
+    banner:
+      "Usamos cookies para que el sitio funcione y, con su permiso, para saber qué productos interesan a los visitantes.",
+    customize: "Personalizar",
+    rejectAll: "Rechazar todas",
+    acceptAll: "Aceptar todas",
+    title: "Configuración de privacidad",
+    description:
+      "Elija qué cookies podemos usar. Puede cambiarlo en cualquier momento desde el pie de página.",
+    close: "Cerrar",
+    alwaysOn: "(siempre activas)",
+    save: "Guardar preferencias",
+    categories: {
+      necessary: {
+        label: "Necesarias",
+        description:
+          "Mantienen el sitio en funcionamiento: tema, idioma, seguridad y esta misma elección.",
+      },
+      analytics: {
+        label: "Analítica",
+        description:
+          "Visitas y clics anónimos que nos indican qué productos se consultan.",
+      },
+      marketing: {
+        label: "Marketing",
+        description:
+          "Miden campañas y muestran anuncios relevantes en otros sitios. Todavía no usamos ninguna.",
+      },
+    },
+  },
+  productPage: {
+    visit: "Ir a {name}",
+    preview: "Ver {name}",
+    features: "Lo que {name} hace por usted",
+    faq: "Preguntas frecuentes",
+    cta: "¿Listo para probar {name}?",
+  },
+  subscribeStatus: {
+    fallbackTitle: "Suscripción",
+    confirmed: {
+      eyebrow: "Suscrito",
+      title: "Ya está en la lista",
+      description:
+        "Gracias por confirmar. Le avisaremos en cuanto haya novedades.",
+    },
+    expired: {
+      eyebrow: "Enlace vencido",
+      title: "Este enlace ha vencido",
+      description:
+        "Los enlaces de confirmación son válidos por 48 horas. Regístrese de nuevo y le enviaremos uno nuevo.",
+    },
+    invalid: {
+      eyebrow: "Enlace no válido",
+      title: "No pudimos confirmar ese enlace",
+      description:
+        "Es posible que el enlace esté incompleto. Cópielo otra vez desde el correo o regístrese de nuevo.",
+    },
+  },
+  blog: {
+    title: "Blog",
+    description:
+      "Noticias, novedades y guías del equipo detrás de MedicareMagic y AuthorMagic.",
+    eyebrow: "Del equipo",
+    tagTitle: "Artículos con la etiqueta “{tag}”",
+    tagDescription: "Todo lo que hemos escrito sobre {tag}.",
+    tags: "Etiquetas",
+    allPosts: "Todos los artículos",
+    readingTime: "{minutes} min de lectura",
+    byAuthor: "Por {author}",
+    draft: "Borrador",
+    aboutProduct: "Sobre {product}",
+    previous: "Artículo anterior",
+    next: "Artículo siguiente",
+    morePosts: "Más artículos",
+    feed: "Suscribirse por RSS",
+    empty: "Todavía no hay artículos. Vuelva pronto.",
+    englishOnly: "Este artículo solo está disponible en inglés.",
+  },
+  about: {
+    title: "Nosotros",
+    description:
+      "Quiénes somos, cómo trabajamos y por qué IntensityMagic crea software de usuarios para usuarios.",
+    eyebrow: "Quiénes somos",
+    heading: "Software de usuarios para usuarios",
+    story:
+      "Creamos las herramientas que nos habría gustado tener. Cada producto de IntensityMagic nace de un problema real que alguien de nuestro equipo, o alguien cercano, vivió en carne propia, y crece con los comentarios de quienes lo usan.",
+    philosophy: {
+      eyebrow: "Nuestra filosofía",
+      title: "De usuarios, para usuarios",
+      description:
+        "Unos pocos principios guían cada decisión sobre nuestros productos.",
+      listen: {
+        title: "Partir de problemas reales",
+        description:
+          "Creamos para situaciones que hemos vivido y seguimos hablando con quienes usan nuestros productos mucho después del lanzamiento.",
+      },
+      plain: {
+        title: "Hablar claro",
+        description:
+          "Sin tecnicismos ni letra pequeña. Si algo necesita un manual, todavía no terminamos de diseñarlo.",
+      },
+      trust: {
+        title: "Ganarnos su confianza",
+        description:
+          "Solo recopilamos lo necesario, explicamos qué hacemos con ello y nunca presionamos para vender.",
+      },
+    },
+    team: {
+      eyebrow: "Equipo",
+      title: "Las personas detrás de los productos",
+      description: "Un equipo pequeño que usa lo que crea.",
+    },
+    timeline: {
+      eyebrow: "Nuestra historia",
+      title: "Cómo llegamos aquí",
+      description: "Los hitos hasta ahora.",
+    },
+    cta: {
+      title: "¿Tiene una idea para nosotros?",
+      button: "Escríbanos",
+    },
+  },
+  legal: {
+    eyebrow: "Legal",
+    effective: "En vigor desde el {date}",
+    version: "Versión {number}",
+    englishOnly: "Este documento solo está disponible en inglés.",
+    superseded: "Esta es una versión anterior. Fue reemplazada el {date}.",
+    viewCurrent: "Ver la versión vigente",
+    history: "Historial de versiones",
+    current: "Vigente",
+    viewing: "Viendo",
+    view: "Ver",
+    changes: "Qué cambió",
+    changesTitle: "Cambios en: {title}",
+    changesDescription:
+      "Qué cambió en «{title}» entre la versión {from} y la versión {to}.",
+    changeCount: "{added} palabras añadidas, {removed} palabras eliminadas",
+    compareWith: "Comparar con",
+    added: "Añadido",
+    removed: "Eliminado",
+    backToVersion: "Volver a la versión {number}",
+  },
+  notFound: {
+    title: "Página no encontrada",
+    description: "No pudimos encontrar lo que buscaba.",
+  },
+  footer: {
+    products: "Productos",
+    company: "Empresa",
+    aboutUs: "Quiénes somos",
+    blog: "Blog",
+    connect: "Contacto",
+    contact: "Escríbanos",
+    support: "Ayuda",
+    copyright: "© 2025 Intensity Ventures. Todos los derechos reservados.",
+    language: "Idioma",
+    legal: "Legal",
+    privacySettings: "Configuración de privacidad",
+  },
+  common: {
+    backHome: "Volver al inicio",
+  },
+};
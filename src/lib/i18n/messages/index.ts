@@ -0,0 +1,12 @@
+import type { Locale } from "../config";
+import { en, type Messages } from "./en";
+import { es } from "./es";
+
+export type { Messages };
+export { formatMessage } from "../format";
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
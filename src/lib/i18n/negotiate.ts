@@ -0,0 +1,59 @@
+import { DEFAULT_LOCALE, LOCALES, isLocale, type Locale } from "./config";
+
+interface LanguagePreference {
+  tag: string;
+  quality: number;
+}
+
+/**
+ * Parse an `Accept-Language` header into tags ordered by preference.
+ * Malformed entries are skipped rather than failing the whole header.
+ */
+export function parseAcceptLanguage(header: string): LanguagePreference[] {
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag = "", ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return { tag: tag.toLowerCase(), quality, index };
+    })
+    .filter(
+      ({ tag, quality }) =>
+        tag !== "" && Number.isFinite(quality) && quality > 0,
+    )
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag, quality }) => ({ tag, quality }));
+}
+
+/**
+ * Pick the locale for a request without one in the path: a remembered
+ * choice first, then the best `Accept-Language` match on the primary
+ * subtag (`es-MX` serves `es`), then the default.
+ */
+export function negotiateLocale({
+  cookie,
+  acceptLanguage,
+}: {
+  cookie?: string | undefined;
+  acceptLanguage?: string | null;
+}): Locale {
+  if (isLocale(cookie)) {
+    return cookie;
+  }
+
+  for (const { tag } of parseAcceptLanguage(acceptLanguage ?? "")) {
+    if (tag === "*") {
+      return DEFAULT_LOCALE;
+    }
+    const primary = tag.split("-")[0];
+    const match = LOCALES.find((locale) => locale === primary);
+    if (match) {
+      return match;
+    }
+  }
+
+  return DEFAULT_LOCALE;
+}
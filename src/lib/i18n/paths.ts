@@ -0,0 +1,41 @@
+import { LOCALES, isLocale, type Locale } from "./config";
+
+/**
+ * The locale prefix of a pathname, if it has one.
+ */
+export function localeFromPathname(pathname: string): Locale | undefined {
+  const segment = pathname.split("/")[1];
+  return isLocale(segment) ? segment : undefined;
+}
+
+/**
+ * Prefix a site-relative path with a locale. Query strings and fragments
+ * are kept: `/#contact` becomes `/es#contact`.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  const suffixStart = path.search(/[?#]/);
+  const pathname = suffixStart === -1 ? path : path.slice(0, suffixStart);
+  const suffix = suffixStart === -1 ? "" : path.slice(suffixStart);
+
+  return `/${locale}${pathname === "/" ? "" : pathname}${suffix}`;
+}
+
+/**
+ * Remove the locale prefix, leaving the path every locale shares.
+ */
+export function unlocalizePath(pathname: string): string {
+  const locale = localeFromPathname(pathname);
+  if (!locale) {
+    return pathname;
+  }
+  return pathname.slice(locale.length + 1) || "/";
+}
+
+/**
+ * The same page in every locale, keyed by locale.
+ */
+export function localizedPaths(path: string): Record<Locale, string> {
+  return Object.fromEntries(
+    LOCALES.map((locale) => [locale, localizePath(path, locale)]),
+  ) as Record<Locale, string>;
+}
@@ -0,0 +1,12 @@
+import { z } from "zod";
+import type { Localized } from "./config";
+
+/**
+ * A non-empty string for every locale, for `Localized` copy in validated
+ * content: the product catalog and legal frontmatter. Listing the locales
+ * here means adding one fails type-checking until it is added too.
+ */
+export function localizedString(message: string) {
+  const text = z.string().min(1, message);
+  return z.object({ en: text, es: text }) satisfies z.ZodType<Localized>;
+}
@@ -0,0 +1,47 @@
+import { diffWordsWithSpace } from "diff";
+import type { LegalVersion } from "./documents";
+
+export interface DiffPart {
+  value: string;
+  added: boolean;
+  removed: boolean;
+}
+
+export interface VersionDiff {
+  parts: DiffPart[];
+  addedWords: number;
+  removedWords: number;
+}
+
+function countWords(value: string): number {
+  return value.split(/\s+/).filter((word) => /\w/.test(word)).length;
+}
+
+/**
+ * Word-level changes from one version's Markdown source to another's.
+ * Whitespace is kept in the parts so the text can be shown as written.
+ */
+export function diffVersions(
+  from: LegalVersion,
+  to: LegalVersion,
+): VersionDiff {
+  const parts = diffWordsWithSpace(from.body.trim(), to.body.trim()).map(
+    ({ value, added, removed }): DiffPart => ({ value, added, removed }),
+  );
+
+  return {
+    parts,
+    addedWords: countWords(
+      parts
+        .filter((part) => part.added)
+        .map((part) => part.value)
+        .join(" "),
+    ),
+    removedWords: countWords(
+      parts
+        .filter((part) => part.removed)
+        .map((part) => part.value)
+        .join(" "),
+    ),
+  };
+}
@@ -0,0 +1,152 @@
+import fs from "node:fs";
+import path from "node:path";
+import matter from "gray-matter";
+import { cache } from "react";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { getDeployEnvironment } from "@/lib/seo/site";
+import {
+  LegalFrontmatterSchema,
+  isLegalDocSlug,
+  parseVersionNumber,
+  type LegalFrontmatter,
+} from "./schema";
+
+export const LEGAL_DIR = path.join(process.cwd(), "content", "legal");
+
+export interface LegalVersion extends LegalFrontmatter {
+  /** Slug of the document this is a version of. */
+  doc: string;
+  /** Version id used in URLs, e.g. "v2". */
+  version: string;
+  number: number;
+  /** Markdown source without the frontmatter. */
+  body: string;
+}
+
+export interface LegalDocument {
+  slug: string;
+  /** The newest version. */
+  current: LegalVersion;
+  /** Every version, newest first. */
+  versions: LegalVersion[];
+}
+
+/**
+ * Like blog drafts, draft versions are listed everywhere except production,
+ * so they can be reviewed on preview deployments and locally.
+ */
+function showDrafts(): boolean {
+  return getDeployEnvironment() !== "production";
+}
+
+function parseVersionFile(doc: string, fileName: string): LegalVersion {
+  const version = path.basename(fileName, ".md");
+  const number = parseVersionNumber(version);
+  if (number === null) {
+    throw new Error(
+      `Invalid legal document file name "${doc}/${fileName}": use v1.md, v2.md and so on`,
+    );
+  }
+
+  const source = fs.readFileSync(path.join(LEGAL_DIR, doc, fileName), "utf8");
+  const { data, content } = matter(source);
+  const result = LegalFrontmatterSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(
+        (issue) =>
+          `  - ${issue.path.join(".") || "frontmatter"}: ${issue.message}`,
+      )
+      .join("\n");
+    throw new Error(
+      `Invalid frontmatter in content/legal/${doc}/${fileName}:\n${issues}`,
+    );
+  }
+
+  return { ...result.data, doc, version, number, body: content };
+}
+
+/**
+ * A document with only draft versions is left out entirely in production.
+ */
+function readDocument(slug: string): LegalDocument | null {
+  if (!isLegalDocSlug(slug)) {
+    throw new Error(
+      `Invalid legal document directory "${slug}": use lowercase letters, numbers and dashes`,
+    );
+  }
+
+  const versions = fs
+    .readdirSync(path.join(LEGAL_DIR, slug))
+    .filter((fileName) => path.extname(fileName) === ".md")
+    .map((fileName) => parseVersionFile(slug, fileName))
+    .sort((a, b) => b.number - a.number);
+
+  if (versions.length === 0) {
+    throw new Error(`Legal document content/legal/${slug} has no versions`);
+  }
+
+  for (const [index, version] of versions.entries()) {
+    const previous = versions[index + 1];
+    if (previous && previous.effectiveDate >= version.effectiveDate) {
+      throw new Error(
+        `content/legal/${slug}/${version.version}.md must take effect after ${previous.version}.md`,
+      );
+    }
+  }
+
+  const visible = showDrafts()
+    ? versions
+    : versions.filter((version) => !version.draft);
+  const [current] = visible;
+  return current ? { slug, current, versions: visible } : null;
+}
+
+/**
+ * Every legal document, ordered by its default-locale title so the order is
+ * the same in every locale. Cached per request.
+ */
+export const getLegalDocuments = cache((): LegalDocument[] => {
+  if (!fs.existsSync(LEGAL_DIR)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(LEGAL_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => readDocument(entry.name))
+    .filter((document) => document !== null)
+    .sort((a, b) =>
+      a.current.title[DEFAULT_LOCALE].localeCompare(
+        b.current.title[DEFAULT_LOCALE],
+      ),
+    );
+});
+
+export function getLegalDocument(slug: string): LegalDocument | undefined {
+  return getLegalDocuments().find((doc) => doc.slug === slug);
+}
+
+export function getLegalVersion(
+  slug: string,
+  version: string,
+): LegalVersion | undefined {
+  return getLegalDocument(slug)?.versions.find(
+    (candidate) => candidate.version === version,
+  );
+}
+
+/**
+ * The versions of a document older than `version`, newest first.
+ */
+export function getEarlierVersions(
+  slug: string,
+  version: string,
+): LegalVersion[] {
+  const versions = getLegalDocument(slug)?.versions ?? [];
+  const index = versions.findIndex(
+    (candidate) => candidate.version === version,
+  );
+  return index === -1 ? [] : versions.slice(index + 1);
+}
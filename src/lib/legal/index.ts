@@ -0,0 +1,3 @@
+export * from "./diff";
+export * from "./documents";
+export * from "./schema";
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { localizedString } from "@/lib/i18n/schema";
+
+/**
+ * Legal document frontmatter.
+ *
+ * Each document is a directory in `content/legal`, named with its slug, and
+ * each version of it is a Markdown file in that directory named `v<n>.md`.
+ * Versions are never edited once published: a change is a new file, so the
+ * earlier text stays available and can be compared. Until the owner or
+ * counsel approves a version it stays a draft, which production never shows.
+ *
+ * The title, description and change summary are set for every locale, as
+ * `en:` and `es:` keys. The text itself is written in English only; pages
+ * in other locales say so and mark it `lang="en"`.
+ */
+
+const DOC_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const VERSION_PATTERN = /^v([1-9]\d*)$/;
+
+export const LegalFrontmatterSchema = z.object({
+  title: localizedString("Title is required"),
+  /** One sentence describing the document, for metadata. */
+  description: localizedString("Description is required"),
+  /** The day this version takes effect. */
+  effectiveDate: z.coerce.date({
+    errorMap: () => ({ message: "Effective date must be a date" }),
+  }),
+  /** What changed since the previous version. */
+  changes: localizedString("Changes can't be empty").optional(),
+  /** Text that hasn't been approved yet; hidden in production. */
+  draft: z.boolean().default(false),
+});
+
+export type LegalFrontmatter = z.infer<typeof LegalFrontmatterSchema>;
+
+export function isLegalDocSlug(value: string): boolean {
+  return DOC_SLUG_PATTERN.test(value);
+}
+
+/**
+ * The number in a version id ("v2" is 2), or null if it isn't one.
+ */
+export function parseVersionNumber(version: string): number | null {
+  const match = VERSION_PATTERN.exec(version);
+  return match?.[1] ? Number(match[1]) : null;
+}
@@ -0,0 +1,152 @@
+import type { z } from "zod";
+import type { ProductSchema } from "./schema";
+
+/**
+ * Raw product entries, in display order.
+ *
+ * Add a new product here and it appears in the nav, the product grid and
+ * the footer. Entries are validated in `index.ts`; keep this file data-only.
+ */
+export const productCatalog: z.input<typeof ProductSchema>[] = [
+  {
+    name: "MedicareMagic",
+    slug: "medicaremagic",
+    tagline: {
+      en: "Medicare, made clear",
+      es: "Medicare, explicado con claridad",
+    },
+    description: {
+      en: "A friendly way to understand Medicare and find a plan that fits your life. Clear steps, plain language, and guidance you can trust.",
+      es: "Una forma amable de entender Medicare y encontrar un plan que se adapte a su vida. Pasos claros, lenguaje sencillo y orientación en la que puede confiar.",
+    },
+    icon: "beaker",
+    accent: "blue",
+    url: "https://medicaremagic.com",
+    status: "live",
+    applicationCategory: "HealthApplication",
+    features: [
+      {
+        title: {
+          en: "Plain-language guidance",
+          es: "Orientación en lenguaje sencillo",
+        },
+        description: {
+          en: "Medicare terms explained the way you would explain them to a friend, with no jargon and no sales pressure.",
+          es: "Los términos de Medicare explicados como se los explicaría a un amigo, sin tecnicismos y sin presión para comprar.",
+        },
+      },
+      {
+        title: {
+          en: "Plans that fit your life",
+          es: "Planes que se adaptan a su vida",
+        },
+        description: {
+          en: "Compare plans against the doctors you see and the prescriptions you take, not just the monthly premium.",
+          es: "Compare los planes según los médicos que visita y los medicamentos que toma, no solo por la prima mensual.",
+        },
+      },
+      {
+        title: {
+          en: "Step-by-step enrollment",
+          es: "Inscripción paso a paso",
+        },
+        description: {
+          en: "Know which deadlines apply to you and what to do next, from your first enrollment to each annual review.",
+          es: "Sepa qué plazos le corresponden y qué hacer a continuación, desde su primera inscripción hasta cada revisión anual.",
+        },
+      },
+    ],
+    faq: [
+      {
+        question: {
+          en: "Who is MedicareMagic for?",
+          es: "¿Para quién es MedicareMagic?",
+        },
+        answer: {
+          en: "Anyone turning 65, already on Medicare, or helping a parent or partner make sense of their options.",
+          es: "Para quien está por cumplir 65 años, ya tiene Medicare o ayuda a un padre o a su pareja a entender sus opciones.",
+        },
+      },
+      {
+        question: {
+          en: "Does MedicareMagic sell insurance?",
+          es: "¿MedicareMagic vende seguros?",
+        },
+        answer: {
+          en: "No. MedicareMagic helps you understand your choices so you can make the decision that is right for you.",
+          es: "No. MedicareMagic le ayuda a entender sus opciones para que pueda tomar la decisión que más le conviene.",
+        },
+      },
+    ],
+  },
+  {
+    name: "AuthorMagic",
+    slug: "authormagic",
+    tagline: {
+      en: "Everything an author needs, in one place",
+      es: "Todo lo que un autor necesita, en un solo lugar",
+    },
+    description: {
+      en: "Empower your author journey with tools to track sales, build your site, manage campaigns, and connect with readers.",
+      es: "Impulse su camino como autor con herramientas para seguir sus ventas, crear su sitio web, gestionar campañas y conectar con sus lectores.",
+    },
+    icon: "book-open",
+    accent: "purple",
+    url: "https://authormagic.com",
+    status: "live",
+    features: [
+      {
+        title: {
+          en: "Sales tracking",
+          es: "Seguimiento de ventas",
+        },
+        description: {
+          en: "See how every book is selling across retailers in one dashboard instead of a dozen spreadsheets.",
+          es: "Vea cómo se vende cada libro en todas las tiendas desde un solo panel, en lugar de una docena de hojas de cálculo.",
+        },
+      },
+      {
+        title: {
+          en: "Author website",
+          es: "Sitio web de autor",
+        },
+        description: {
+          en: "Publish a site for you and your books that stays in sync with your catalog automatically.",
+          es: "Publique un sitio para usted y sus libros que se mantiene sincronizado con su catálogo automáticamente.",
+        },
+      },
+      {
+        title: {
+          en: "Campaigns and readers",
+          es: "Campañas y lectores",
+        },
+        description: {
+          en: "Plan launches, manage promotions, and stay connected with the readers who love your work.",
+          es: "Planifique lanzamientos, gestione promociones y manténgase en contacto con los lectores que disfrutan de su obra.",
+        },
+      },
+    ],
+    faq: [
+      {
+        question: {
+          en: "Do I need to be traditionally published?",
+          es: "¿Necesito publicar con una editorial tradicional?",
+        },
+        answer: {
+          en: "No. AuthorMagic works for indie, hybrid and traditionally published authors alike.",
+          es: "No. AuthorMagic sirve por igual a autores independientes, híbridos y con editorial tradicional.",
+        },
+      },
+      {
+        question: {
+          en: "Can I bring my existing books?",
+          es: "¿Puedo añadir los libros que ya tengo?",
+        },
+        answer: {
+          en: "Yes. Add your existing titles and AuthorMagic builds your catalog and site from them.",
+          es: "Sí. Añada sus títulos existentes y AuthorMagic creará su catálogo y su sitio a partir de ellos.",
+        },
+      },
+    ],
+  },
+];
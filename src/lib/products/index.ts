@@ -0,0 +1,29 @@
+import { productCatalog } from "./catalog";
+import { ProductCatalogSchema, type Product } from "./schema";
+
+export * from "./schema";
+
+/**
+ * Parse the raw catalog, throwing a readable error that lists every problem.
+ * Runs at import time so invalid entries fail the build.
+ */
+export function parseProductCatalog(input: unknown): Product[] {
+  const result = ProductCatalogSchema.safeParse(input);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(
+        (issue) => `  - ${issue.path.join(".") || "catalog"}: ${issue.message}`,
+      )
+      .join("\n");
+    throw new Error(`Invalid product catalog:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+export const products: readonly Product[] = parseProductCatalog(productCatalog);
+
+export function getProductBySlug(slug: string): Product | undefined {
+  return products.find((product) => product.slug === slug);
+}
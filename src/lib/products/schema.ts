@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { localizedString } from "@/lib/i18n/schema";
+
+/**
+ * Product registry schema.
+ *
+ * Every "*magic" product shown on the site is described by one entry in
+ * `catalog.ts`, including the content for its `/products/[slug]` page. The
+ * registry is parsed with this schema when the module is first imported, so
+ * a duplicate slug or a missing field fails `next build` instead of shipping
+ * a broken card. Copy is `Localized`, with a value for every locale; the
+ * name is a brand and stays the same in all of them.
+ *
+ * Product pages have no screenshots section yet: none of the products has
+ * approved captures. Add a field here and a section to the page once they do.
+ */
+
+export const PRODUCT_STATUSES = ["live", "beta", "coming-soon"] as const;
+
+export const PRODUCT_ICONS = ["beaker", "book-open"] as const;
+
+export const PRODUCT_ACCENTS = ["blue", "purple"] as const;
+
+export const ProductFeatureSchema = z.object({
+  title: localizedString("Feature title is required"),
+  description: localizedString("Feature description is required"),
+});
+
+export const ProductFaqSchema = z.object({
+  question: localizedString("FAQ question is required"),
+  answer: localizedString("FAQ answer is required"),
+});
+
+export const ProductSchema = z.object({
+  name: z.string().min(1, "Product name is required"),
+  slug: z
+    .string()
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Slug must be lowercase letters, numbers and dashes",
+    ),
+  tagline: localizedString("Tagline is required"),
+  description: localizedString("Description is required"),
+  icon: z.enum(PRODUCT_ICONS),
+  accent: z.enum(PRODUCT_ACCENTS),
+  url: z.string().url("Product URL must be an absolute URL"),
+  status: z.enum(PRODUCT_STATUSES),
+  /** schema.org `applicationCategory`, used in structured data. */
+  applicationCategory: z.string().default("BusinessApplication"),
+  features: z
+    .array(ProductFeatureSchema)
+    .min(1, "List at least one feature for the product page"),
+  faq: z.array(ProductFaqSchema).default([]),
+});
+
+export const ProductCatalogSchema = z
+  .array(ProductSchema)
+  .min(1, "The product catalog must contain at least one product")
+  .superRefine((products, ctx) => {
+    const seen = new Set<string>();
+
+    products.forEach((product, index) => {
+      if (seen.has(product.slug)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate product slug "${product.slug}"`,
+          path: [index, "slug"],
+        });
+      }
+      seen.add(product.slug);
+    });
+  });
+
+export type Product = z.infer<typeof ProductSchema>;
+export type ProductStatus = Product["status"];
+export type ProductIcon = Product["icon"];
+export type ProductAccent = Product["accent"];
+export type ProductFeature = z.infer<typeof ProductFeatureSchema>;
+export type ProductFaq = z.infer<typeof ProductFaqSchema>;
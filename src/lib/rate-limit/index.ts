@@ -0,0 +1,105 @@
+import type { NextRequest, NextResponse } from "next/server";
+import { ApiErrors } from "@/lib/api/response";
+import { getRateLimitStore, type RateLimitStore } from "./store";
+import {
+  slidingWindow,
+  tokenBucket,
+  type RateLimitResult,
+  type RateLimitStrategy,
+} from "./strategies";
+
+export * from "./store";
+export * from "./strategies";
+
+/**
+ * Per-client rate limiting for API routes.
+ *
+ * Each limiter keys state by route and client IP, so a noisy client on one
+ * endpoint doesn't exhaust its allowance on another. Usage in a route:
+ *
+ *   const rateLimit = await rateLimiters.forms.check(request, "contact");
+ *   if (!rateLimit.allowed) {
+ *     return rateLimitExceeded(rateLimit, requestId);
+ *   }
+ *   ...
+ *   return withRateLimitHeaders(apiSuccess(data), rateLimit);
+ */
+
+export interface RateLimiter {
+  readonly strategy: RateLimitStrategy;
+  check(request: NextRequest, route: string): Promise<RateLimitResult>;
+}
+
+/**
+ * The client address the platform saw. Vercel sets `X-Real-IP` itself,
+ * replacing any value the client sent. Behind another proxy the right-most
+ * `X-Forwarded-For` hop is the one that proxy appended; earlier hops come
+ * from the client and are ignored, so rotating them can't dodge a limit.
+ * Requests without either share one "unknown" bucket.
+ */
+export function getClientIp(request: NextRequest): string {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  if (realIp) {
+    return realIp;
+  }
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",");
+  return forwarded?.pop()?.trim() || "unknown";
+}
+
+/**
+ * `store` defaults to the active store at call time, so `setRateLimitStore`
+ * also applies to limiters created at module load.
+ */
+export function createRateLimiter(
+  strategy: RateLimitStrategy,
+  store?: RateLimitStore,
+): RateLimiter {
+  return {
+    strategy,
+    async check(request, route) {
+      const key = `ratelimit:${strategy.name}:${route}:${getClientIp(request)}`;
+      return strategy.consume(store ?? getRateLimitStore(), key, Date.now());
+    },
+  };
+}
+
+/**
+ * Shared limiters by endpoint type.
+ *
+ * - `forms`: write endpoints that send mail or store data; a handful of
+ *   submissions per client every ten minutes.
+ * - `links`: links opened from emails; bursty but low volume.
+ * - `reads`: cheap GET endpoints polled by monitors and deploy scripts.
+ * - `reports`: browser-sent CSP reports and analytics beacons, which arrive
+ *   in bursts.
+ */
+export const rateLimiters = {
+  forms: createRateLimiter(slidingWindow({ limit: 5, windowMs: 10 * 60_000 })),
+  links: createRateLimiter(tokenBucket({ capacity: 10, refillPerSecond: 0.1 })),
+  reads: createRateLimiter(tokenBucket({ capacity: 60, refillPerSecond: 1 })),
+  reports: createRateLimiter(tokenBucket({ capacity: 50, refillPerSecond: 5 })),
+} as const;
+
+export function withRateLimitHeaders<T extends NextResponse>(
+  response: T,
+  result: RateLimitResult,
+): T {
+  response.headers.set("X-RateLimit-Limit", String(result.limit));
+  response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+  response.headers.set(
+    "X-RateLimit-Reset",
+    String(Math.ceil(result.resetAt / 1000)),
+  );
+  return response;
+}
+
+/**
+ * The standard `RATE_LIMITED` envelope with `Retry-After` and
+ * `X-RateLimit-*` headers.
+ */
+export function rateLimitExceeded(result: RateLimitResult, requestId?: string) {
+  return withRateLimitHeaders(
+    ApiErrors.rateLimited(result.retryAfter, requestId),
+    result,
+  );
+}
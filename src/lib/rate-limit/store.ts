@@ -0,0 +1,78 @@
+/**
+ * Rate limit state storage.
+ *
+ * Strategies read and write one small JSON-serializable record per key. The
+ * default store keeps records in process memory, which is enough for a single
+ * instance; on a multi-instance deployment swap in a shared store (Redis,
+ * KV) with `setRateLimitStore` so limits apply across instances.
+ */
+
+export interface RateLimitStore {
+  readonly name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  /** Store `value` for `ttlMs`; after that the key reads as unset. */
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Expired entries are dropped on read, and swept in bulk once the map grows
+ * past `maxEntries` so a flood of distinct IPs can't grow it without bound.
+ */
+export function createMemoryRateLimitStore({
+  maxEntries = 10_000,
+}: { maxEntries?: number } = {}): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  function sweep(now: number) {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+    // Still full of live entries: evict the oldest insertions.
+    for (const key of entries.keys()) {
+      if (entries.size < maxEntries) break;
+      entries.delete(key);
+    }
+  }
+
+  return {
+    name: "memory",
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set(key, value, ttlMs) {
+      const now = Date.now();
+      if (entries.size >= maxEntries && !entries.has(key)) {
+        sweep(now);
+      }
+      entries.set(key, { value, expiresAt: now + ttlMs });
+    },
+  };
+}
+
+let activeStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = createMemoryRateLimitStore();
+  }
+  return activeStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createMemoryRateLimitStore, type RateLimitStore } from "./store";
+import {
+  slidingWindow,
+  tokenBucket,
+  type RateLimitStrategy,
+} from "./strategies";
+
+const KEY = "ratelimit:test:route:203.0.113.1";
+
+describe("slidingWindow", () => {
+  const windowMs = 60_000;
+  // A window boundary, so each test knows where its windows start.
+  const start = 1_000 * windowMs;
+
+  async function consumeMany(
+    strategy: RateLimitStrategy,
+    store: RateLimitStore,
+    count: number,
+    now: number,
+  ) {
+    const results = [];
+    for (let i = 0; i < count; i++) {
+      results.push(await strategy.consume(store, KEY, now));
+    }
+    return results;
+  }
+
+  it("allows `limit` requests in a window, then refuses", async () => {
+    const strategy = slidingWindow({ limit: 5, windowMs });
+    const store = createMemoryRateLimitStore();
+
+    const results = await consumeMany(strategy, store, 6, start);
+
+    assert.deepEqual(
+      results.map((result) => result.remaining),
+      [4, 3, 2, 1, 0, 0],
+    );
+    assert.deepEqual(
+      results.map((result) => result.allowed),
+      [true, true, true, true, true, false],
+    );
+    const refused = results[5];
+    assert.equal(refused?.resetAt, start + windowMs);
+    // This window's 5 still count 80% (limit - 1 of 5) into the next one.
+    assert.equal(refused?.retryAfter, 72);
+  });
+
+  it("weights the previous window by its overlap after a rollover", async () => {
+    const strategy = slidingWindow({ limit: 5, windowMs });
+    const store = createMemoryRateLimitStore();
+    await consumeMany(strategy, store, 5, start);
+
+    // Halfway through the next window the previous 5 count as 2.5, leaving
+    // room for 3 more before the estimate reaches the limit.
+    const results = await consumeMany(
+      strategy,
+      store,
+      4,
+      start + windowMs + windowMs / 2,
+    );
+
+    assert.deepEqual(
+      results.map((result) => result.allowed),
+      [true, true, true, false],
+    );
+    assert.equal(results[3]?.resetAt, start + 2 * windowMs);
+  });
+
+  it("forgets requests older than two windows", async () => {
+    const strategy = slidingWindow({ limit: 5, windowMs });
+    const store = createMemoryRateLimitStore();
+    await consumeMany(strategy, store, 5, start);
+
+    const results = await consumeMany(strategy, store, 5, start + 2 * windowMs);
+
+    assert.ok(results.every((result) => result.allowed));
+  });
+
+  it("keeps separate counts per key", async () => {
+    const strategy = slidingWindow({ limit: 1, windowMs });
+    const store = createMemoryRateLimitStore();
+
+    assert.equal((await strategy.consume(store, KEY, start)).allowed, true);
+    assert.equal(
+      (await strategy.consume(store, `${KEY}:other`, start)).allowed,
+      true,
+    );
+    assert.equal((await strategy.consume(store, KEY, start)).allowed, false);
+  });
+});
+
+describe("tokenBucket", () => {
+  const now = 1_700_000_000_000;
+
+  it("allows a burst up to capacity, then refuses", async () => {
+    const strategy = tokenBucket({ capacity: 3, refillPerSecond: 1 });
+    const store = createMemoryRateLimitStore();
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await strategy.consume(store, KEY, now));
+    }
+
+    assert.deepEqual(
+      results.map((result) => result.remaining),
+      [2, 1, 0, 0],
+    );
+    assert.equal(results[3]?.allowed, false);
+    assert.equal(results[3]?.retryAfter, 1);
+    assert.equal(results[3]?.resetAt, now + 3_000);
+  });
+
+  it("refills at the configured rate", async () => {
+    const strategy = tokenBucket({ capacity: 3, refillPerSecond: 1 });
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await strategy.consume(store, KEY, now);
+    }
+
+    // Half a token isn't enough; a whole one is, and only one.
+    assert.equal(
+      (await strategy.consume(store, KEY, now + 500)).allowed,
+      false,
+    );
+    assert.equal(
+      (await strategy.consume(store, KEY, now + 1_000)).allowed,
+      true,
+    );
+    assert.equal(
+      (await strategy.consume(store, KEY, now + 1_000)).allowed,
+      false,
+    );
+  });
+
+  it("never refills past capacity", async () => {
+    const strategy = tokenBucket({ capacity: 3, refillPerSecond: 1 });
+    const store = createMemoryRateLimitStore();
+    await strategy.consume(store, KEY, now);
+
+    const later = now + 60_000;
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await strategy.consume(store, KEY, later));
+    }
+
+    assert.deepEqual(
+      results.map((result) => result.allowed),
+      [true, true, true, false],
+    );
+  });
+
+  it("reports retryAfter for slow refill rates", async () => {
+    const strategy = tokenBucket({ capacity: 1, refillPerSecond: 0.1 });
+    const store = createMemoryRateLimitStore();
+    await strategy.consume(store, KEY, now);
+
+    const refused = await strategy.consume(store, KEY, now + 4_000);
+
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.retryAfter, 6);
+  });
+});
@@ -0,0 +1,150 @@
+import type { RateLimitStore } from "./store";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests allowed per window, or the bucket capacity. */
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the limit fully resets. */
+  resetAt: number;
+  /** Seconds until the next request would be allowed; 0 when allowed. */
+  retryAfter: number;
+}
+
+export interface RateLimitStrategy {
+  readonly name: string;
+  consume(
+    store: RateLimitStore,
+    key: string,
+    now: number,
+  ): Promise<RateLimitResult>;
+}
+
+interface WindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Sliding-window counter: the previous fixed window's count is weighted by
+ * how much of it still overlaps the sliding window. Two integers per key
+ * instead of a timestamp per request, and no burst at window boundaries.
+ */
+export function slidingWindow({
+  limit,
+  windowMs,
+}: {
+  limit: number;
+  windowMs: number;
+}): RateLimitStrategy {
+  return {
+    name: "sliding-window",
+    async consume(store, key, now) {
+      const windowStart = now - (now % windowMs);
+      const saved = await store.get<WindowState>(key);
+
+      let state: WindowState;
+      if (!saved || saved.windowStart <= windowStart - 2 * windowMs) {
+        state = { windowStart, current: 0, previous: 0 };
+      } else if (saved.windowStart < windowStart) {
+        state = { windowStart, current: 0, previous: saved.current };
+      } else {
+        state = saved;
+      }
+
+      const overlap = 1 - (now - windowStart) / windowMs;
+      const estimate = state.previous * overlap + state.current;
+      const resetAt = windowStart + windowMs;
+
+      if (estimate >= limit) {
+        // Earliest time the weighted estimate drops below the limit. If this
+        // window alone is full, that happens once it becomes "previous".
+        const headroom = limit - state.current - 1;
+        const freeAt =
+          headroom >= 0
+            ? windowStart + windowMs * (1 - headroom / state.previous)
+            : resetAt + windowMs * (1 - (limit - 1) / state.current);
+        return {
+          allowed: false,
+          limit,
+          remaining: 0,
+          resetAt,
+          retryAfter: Math.max(1, Math.ceil((freeAt - now) / 1000)),
+        };
+      }
+
+      state = { ...state, current: state.current + 1 };
+      await store.set(key, state, 2 * windowMs);
+
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimate - 1)),
+        resetAt,
+        retryAfter: 0,
+      };
+    },
+  };
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket: allows bursts up to `capacity`, then a steady
+ * `refillPerSecond`.
+ */
+export function tokenBucket({
+  capacity,
+  refillPerSecond,
+}: {
+  capacity: number;
+  refillPerSecond: number;
+}): RateLimitStrategy {
+  const msPerToken = 1000 / refillPerSecond;
+  const fullRefillMs = capacity * msPerToken;
+
+  return {
+    name: "token-bucket",
+    async consume(store, key, now) {
+      const saved = await store.get<BucketState>(key);
+      const tokens = saved
+        ? Math.min(
+            capacity,
+            saved.tokens + (now - saved.updatedAt) / msPerToken,
+          )
+        : capacity;
+
+      if (tokens < 1) {
+        return {
+          allowed: false,
+          limit: capacity,
+          remaining: 0,
+          resetAt: now + Math.ceil((capacity - tokens) * msPerToken),
+          retryAfter: Math.max(
+            1,
+            Math.ceil(((1 - tokens) * msPerToken) / 1000),
+          ),
+        };
+      }
+
+      const left = tokens - 1;
+      await store.set<BucketState>(
+        key,
+        { tokens: left, updatedAt: now },
+        fullRefillMs,
+      );
+
+      return {
+        allowed: true,
+        limit: capacity,
+        remaining: Math.floor(left),
+        resetAt: now + Math.ceil((capacity - left) * msPerToken),
+        retryAfter: 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+
+/**
+ * CSP violation report formats.
+ *
+ * Browsers send either the legacy `report-uri` body
+ * (`application/csp-report`) or a Reporting API batch
+ * (`application/reports+json`). Both are normalized to `CspViolation`.
+ */
+
+export const LEGACY_REPORT_CONTENT_TYPE = "application/csp-report";
+export const REPORTING_API_CONTENT_TYPE = "application/reports+json";
+
+export const LegacyCspReportSchema = z.object({
+  "csp-report": z.object({
+    "document-uri": z.string(),
+    "violated-directive": z.string().optional(),
+    "effective-directive": z.string().optional(),
+    "blocked-uri": z.string().default(""),
+    disposition: z.enum(["enforce", "report"]).optional(),
+    "source-file": z.string().optional(),
+    "line-number": z.number().int().optional(),
+  }),
+});
+
+const ReportingApiCspReportSchema = z.object({
+  type: z.literal("csp-violation"),
+  url: z.string(),
+  body: z.object({
+    documentURL: z.string(),
+    effectiveDirective: z.string(),
+    blockedURL: z.string().default(""),
+    disposition: z.enum(["enforce", "report"]).optional(),
+    sourceFile: z.string().optional(),
+    lineNumber: z.number().int().optional(),
+  }),
+});
+
+/**
+ * A batch can mix report types; anything that isn't a CSP violation is
+ * dropped rather than failing the whole batch.
+ */
+export const ReportingApiBatchSchema = z
+  .array(z.object({ type: z.string() }).passthrough())
+  .max(100)
+  .transform((reports) =>
+    reports.filter((report) => report.type === "csp-violation"),
+  )
+  .pipe(z.array(ReportingApiCspReportSchema));
+
+export interface CspViolation {
+  documentUri: string;
+  directive: string;
+  blockedUri: string;
+  disposition: "enforce" | "report";
+  sourceFile?: string;
+  lineNumber?: number;
+}
+
+/**
+ * Drop query strings and fragments: they vary per request, so they would
+ * defeat deduplication, and they can carry tokens. Keywords such as
+ * `inline` or `eval` pass through unchanged.
+ */
+export function stripUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return value;
+  }
+}
+
+export function fromLegacyReport(
+  report: z.infer<typeof LegacyCspReportSchema>,
+): CspViolation {
+  const body = report["csp-report"];
+  const directive =
+    body["effective-directive"] ??
+    body["violated-directive"]?.split(" ")[0] ??
+    "unknown";
+
+  return {
+    documentUri: stripUrl(body["document-uri"]),
+    directive,
+    blockedUri: stripUrl(body["blocked-uri"]),
+    disposition: body.disposition ?? "enforce",
+    ...(body["source-file"] && { sourceFile: stripUrl(body["source-file"]) }),
+    ...(body["line-number"] !== undefined && {
+      lineNumber: body["line-number"],
+    }),
+  };
+}
+
+export function fromReportingApiBatch(
+  batch: z.infer<typeof ReportingApiBatchSchema>,
+): CspViolation[] {
+  return batch.map(({ body }) => ({
+    documentUri: stripUrl(body.documentURL),
+    directive: body.effectiveDirective,
+    blockedUri: stripUrl(body.blockedURL),
+    disposition: body.disposition ?? "enforce",
+    ...(body.sourceFile && { sourceFile: stripUrl(body.sourceFile) }),
+    ...(body.lineNumber !== undefined && { lineNumber: body.lineNumber }),
+  }));
+}
@@ -0,0 +1,97 @@
+import type { CspViolation } from "./csp-report";
+
+/**
+ * CSP violation aggregation.
+ *
+ * Reports are deduplicated by directive and blocked URI and counted, so a
+ * single misconfigured script on a busy page is one entry, not thousands.
+ * The default store is in memory and per instance; swap in a shared one with
+ * `setCspViolationStore`.
+ */
+
+export interface CspViolationSummary {
+  directive: string;
+  blockedUri: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** A few pages where the violation happened. */
+  documentUris: string[];
+  disposition: CspViolation["disposition"];
+}
+
+export interface CspViolationStore {
+  readonly name: string;
+  /** Returns true the first time a directive/blocked URI pair is seen. */
+  record(violation: CspViolation): Promise<boolean>;
+  /** Most frequent violations first. */
+  top(limit: number): Promise<CspViolationSummary[]>;
+}
+
+const MAX_DOCUMENT_URIS = 5;
+
+export function violationKey(violation: CspViolation): string {
+  return `${violation.directive} ${violation.blockedUri}`;
+}
+
+export function createMemoryCspViolationStore({
+  maxEntries = 1_000,
+}: { maxEntries?: number } = {}): CspViolationStore {
+  const entries = new Map<string, CspViolationSummary>();
+
+  return {
+    name: "memory",
+    async record(violation) {
+      const key = violationKey(violation);
+      const now = new Date().toISOString();
+      const existing = entries.get(key);
+
+      if (existing) {
+        existing.count += 1;
+        existing.lastSeen = now;
+        if (
+          existing.documentUris.length < MAX_DOCUMENT_URIS &&
+          !existing.documentUris.includes(violation.documentUri)
+        ) {
+          existing.documentUris.push(violation.documentUri);
+        }
+        return false;
+      }
+
+      // Full: new pairs go uncounted and are only logged at debug.
+      if (entries.size >= maxEntries) {
+        return false;
+      }
+
+      entries.set(key, {
+        directive: violation.directive,
+        blockedUri: violation.blockedUri,
+        count: 1,
+        firstSeen: now,
+        lastSeen: now,
+        documentUris: [violation.documentUri],
+        disposition: violation.disposition,
+      });
+      return true;
+    },
+    async top(limit) {
+      return [...entries.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit)
+        .map((entry) => ({ ...entry, documentUris: [...entry.documentUris] }));
+    },
+  };
+}
+
+let activeStore: CspViolationStore | null = null;
+
+export function getCspViolationStore(): CspViolationStore {
+  if (!activeStore) {
+    activeStore = createMemoryCspViolationStore();
+  }
+  return activeStore;
+}
+
+export function setCspViolationStore(store: CspViolationStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,88 @@
+import type { TeamMember } from "@/lib/about";
+import type { Post } from "@/lib/blog";
+import type { Locale } from "@/lib/i18n/config";
+import { localizePath } from "@/lib/i18n/paths";
+import type { Product } from "@/lib/products";
+import { SITE, absoluteUrl } from "./site";
+
+/**
+ * schema.org structured data. Kept as plain objects so pages can combine
+ * them in a single `<JsonLd>` block.
+ */
+
+export type JsonLdObject = { "@context"?: string; "@type": string } & Record<
+  string,
+  unknown
+>;
+
+export function organizationJsonLd(products: readonly Product[]): JsonLdObject {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Organization",
+    "@id": absoluteUrl("/#organization"),
+    name: SITE.name,
+    legalName: SITE.legalName,
+    url: SITE.url,
+    description: SITE.description,
+    brand: products.map((product) => ({
+      "@type": "Brand",
+      name: product.name,
+      url: product.url,
+    })),
+  };
+}
+
+export function personJsonLd(member: TeamMember, locale: Locale): JsonLdObject {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Person",
+    "@id": absoluteUrl(`/about#${member.id}`),
+    name: member.name,
+    jobTitle: member.role[locale],
+    description: member.bio[locale],
+    ...(member.avatar && { image: absoluteUrl(member.avatar.src) }),
+    ...(member.links && { sameAs: member.links }),
+    worksFor: { "@id": absoluteUrl("/#organization") },
+  };
+}
+
+export function softwareApplicationJsonLd(
+  product: Product,
+  locale: Locale,
+): JsonLdObject {
+  return {
+    "@context": "https://schema.org",
+    "@type": "SoftwareApplication",
+    name: product.name,
+    description: product.description[locale],
+    url: product.url,
+    mainEntityOfPage: absoluteUrl(
+      localizePath(`/products/${product.slug}`, locale),
+    ),
+    applicationCategory: product.applicationCategory,
+    operatingSystem: "Web",
+    publisher: { "@id": absoluteUrl("/#organization") },
+  };
+}
+
+export function blogPostingJsonLd(post: Post, locale: Locale): JsonLdObject {
+  return {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: post.title,
+    description: post.summary,
+    datePublished: post.date.toISOString(),
+    author: { "@type": "Person", name: post.author },
+    keywords: post.tags,
+    mainEntityOfPage: absoluteUrl(localizePath(`/blog/${post.slug}`, locale)),
+    publisher: { "@id": absoluteUrl("/#organization") },
+  };
+}
+
+/**
+ * Serialize for an inline `<script>`; escapes `<` so content can't close the
+ * tag early.
+ */
+export function serializeJsonLd(data: JsonLdObject | JsonLdObject[]): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
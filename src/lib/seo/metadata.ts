@@ -0,0 +1,154 @@
+import type { Metadata } from "next";
+import { feedAlternates } from "@/lib/feeds";
+import { LOCALES, OPEN_GRAPH_LOCALES, type Locale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { localizePath, localizedPaths } from "@/lib/i18n/paths";
+import { SITE, absoluteUrl } from "./site";
+
+/**
+ * Defaults for every route, exported from the root layout.
+ */
+export const rootMetadata: Metadata = {
+  metadataBase: new URL(SITE.url),
+  title: {
+    default: SITE.title,
+    template: `%s | ${SITE.name}`,
+  },
+  description: SITE.description,
+  applicationName: SITE.name,
+  alternates: { canonical: "/" },
+  openGraph: {
+    type: "website",
+    siteName: SITE.name,
+    locale: SITE.locale,
+    url: "/",
+    title: SITE.title,
+    description: SITE.description,
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: SITE.title,
+    description: SITE.description,
+  },
+};
+
+/**
+ * Absolute URL of a page in every locale, keyed by `hreflang`. `x-default`
+ * points at the unprefixed path, which the middleware negotiates.
+ */
+export function hreflangUrls(path: string): Record<string, string> {
+  const languages = Object.fromEntries(
+    Object.entries(localizedPaths(path)).map(([hreflang, localized]) => [
+      hreflang,
+      absoluteUrl(localized),
+    ]),
+  );
+  return { ...languages, "x-default": absoluteUrl(path) };
+}
+
+/**
+ * Canonical URL for one locale plus `hreflang` alternates for all of them.
+ */
+export function localeAlternates(
+  path: string,
+  locale: Locale,
+): NonNullable<Metadata["alternates"]> {
+  return {
+    canonical: absoluteUrl(localizePath(path, locale)),
+    languages: hreflangUrls(path),
+  };
+}
+
+function openGraphLocales(locale: Locale) {
+  return {
+    locale: OPEN_GRAPH_LOCALES[locale],
+    alternateLocale: LOCALES.filter((other) => other !== locale).map(
+      (other) => OPEN_GRAPH_LOCALES[other],
+    ),
+  };
+}
+
+/**
+ * Localized defaults for everything under `/[locale]`, exported from its
+ * layout. The home page uses these as-is.
+ */
+export function buildLocaleMetadata(locale: Locale): Metadata {
+  const { meta } = getMessages(locale);
+
+  return {
+    // `absolute`: the root layout's template would otherwise apply to this
+    // layout's own title and repeat the site name.
+    title: {
+      absolute: meta.title,
+      template: `%s | ${SITE.name}`,
+    },
+    description: meta.description,
+    alternates: { ...localeAlternates("/", locale), types: feedAlternates() },
+    openGraph: {
+      type: "website",
+      siteName: SITE.name,
+      ...openGraphLocales(locale),
+      url: localizePath("/", locale),
+      title: meta.title,
+      description: meta.description,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: meta.title,
+      description: meta.description,
+    },
+  };
+}
+
+export interface PageMetadataInput {
+  /** Page title; the root template appends the site name. */
+  title: string;
+  description: string;
+  /**
+   * Site-relative path without the locale prefix, used for the canonical
+   * URL, `hreflang` alternates and `og:url`.
+   */
+  path: string;
+  locale: Locale;
+  type?: "website" | "article";
+  /** Feeds to advertise with `<link rel="alternate">`; see `feedAlternates`. */
+  feeds?: NonNullable<Metadata["alternates"]>["types"];
+}
+
+/**
+ * Per-route overrides with matching canonical, `hreflang`, Open Graph and
+ * Twitter tags.
+ */
+export function buildPageMetadata({
+  title,
+  description,
+  path,
+  locale,
+  type = "website",
+  feeds,
+}: PageMetadataInput): Metadata {
+  const url = absoluteUrl(localizePath(path, locale));
+  const fullTitle = `${title} | ${SITE.name}`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      ...localeAlternates(path, locale),
+      ...(feeds && { types: feeds }),
+    },
+    openGraph: {
+      type,
+      siteName: SITE.name,
+      ...openGraphLocales(locale),
+      url,
+      title: fullTitle,
+      description,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: fullTitle,
+      description,
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import ProductOpengraphImage, {
+  generateStaticParams as productImageParams,
+} from "@/app/[locale]/products/[slug]/opengraph-image";
+import SiteOpengraphImage from "@/app/opengraph-image";
+import { OG_IMAGE_SIZE } from "./og-image";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/** Width and height are the first two fields of the IHDR chunk. */
+async function readPngSize(response: Response) {
+  const png = Buffer.from(await response.arrayBuffer());
+  assert.ok(png.subarray(0, 8).equals(PNG_SIGNATURE), "not a PNG");
+  assert.equal(png.toString("latin1", 12, 16), "IHDR");
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+describe("opengraph-image routes", () => {
+  it("renders the site card at 1200x630", async () => {
+    const size = await readPngSize(SiteOpengraphImage());
+
+    assert.deepEqual(size, { width: 1200, height: 630 });
+    assert.deepEqual(size, OG_IMAGE_SIZE);
+  });
+
+  for (const params of productImageParams()) {
+    it(`renders /${params.locale}/products/${params.slug} at 1200x630`, async () => {
+      const size = await readPngSize(
+        await ProductOpengraphImage({ params: Promise.resolve(params) }),
+      );
+
+      assert.deepEqual(size, { width: 1200, height: 630 });
+    });
+  }
+});
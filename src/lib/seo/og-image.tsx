@@ -0,0 +1,82 @@
+import { ImageResponse } from "next/og";
+import { SITE } from "./site";
+
+/** Size recommended by Open Graph consumers (Slack, LinkedIn, X). */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 } as const;
+
+export const OG_IMAGE_CONTENT_TYPE = "image/png";
+
+export interface OgImageInput {
+  title: string;
+  tagline: string;
+  /** Small label above the title, e.g. the product status. */
+  eyebrow?: string;
+}
+
+/**
+ * Brand card for `opengraph-image.tsx` routes: the blue-to-purple gradient
+ * from the landing page with the title and tagline in white.
+ */
+export function renderOgImage({
+  title,
+  tagline,
+  eyebrow,
+}: OgImageInput): ImageResponse {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "72px 80px",
+          color: "#ffffff",
+          backgroundImage: `linear-gradient(to right, ${SITE.colors.from}, ${SITE.colors.to})`,
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 36, fontWeight: 700 }}>
+          {SITE.name}
+        </div>
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          {eyebrow && (
+            <div
+              style={{
+                display: "flex",
+                fontSize: 28,
+                textTransform: "uppercase",
+                letterSpacing: 4,
+                opacity: 0.8,
+                marginBottom: 16,
+              }}
+            >
+              {eyebrow}
+            </div>
+          )}
+          <div
+            style={{
+              display: "flex",
+              fontSize: 88,
+              fontWeight: 700,
+              lineHeight: 1.1,
+            }}
+          >
+            {title}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              fontSize: 40,
+              marginTop: 24,
+              opacity: 0.9,
+            }}
+          >
+            {tagline}
+          </div>
+        </div>
+      </div>
+    ),
+    OG_IMAGE_SIZE,
+  );
+}
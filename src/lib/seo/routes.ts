@@ -0,0 +1,73 @@
+import type { MetadataRoute } from "next";
+import { getPosts, getTags } from "@/lib/blog";
+import { buildInfo } from "@/lib/build-info";
+import { getLegalDocuments } from "@/lib/legal";
+import { products } from "@/lib/products";
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+export interface SiteRoute {
+  path: string;
+  changeFrequency: NonNullable<SitemapEntry["changeFrequency"]>;
+  priority: number;
+  /** Defaults to the build time; see `lastModified`. */
+  lastModified?: Date;
+}
+
+/**
+ * Pages that exist outside of any registry. Add new top-level pages here so
+ * they appear in the sitemap.
+ */
+export const STATIC_ROUTES: SiteRoute[] = [
+  { path: "/", changeFrequency: "weekly", priority: 1 },
+  { path: "/about", changeFrequency: "monthly", priority: 0.8 },
+  { path: "/blog", changeFrequency: "weekly", priority: 0.7 },
+];
+
+/**
+ * Every indexable page on the site, static routes first.
+ */
+export function getSiteRoutes(): SiteRoute[] {
+  return [
+    ...STATIC_ROUTES,
+    ...products.map(
+      (product): SiteRoute => ({
+        path: `/products/${product.slug}`,
+        changeFrequency: "monthly",
+        priority: 0.8,
+      }),
+    ),
+    ...getPosts().map(
+      (post): SiteRoute => ({
+        path: `/blog/${post.slug}`,
+        changeFrequency: "yearly",
+        priority: 0.6,
+        lastModified: post.date,
+      }),
+    ),
+    ...getTags().map(
+      ({ tag }): SiteRoute => ({
+        path: `/blog/tags/${tag}`,
+        changeFrequency: "weekly",
+        priority: 0.3,
+      }),
+    ),
+    ...getLegalDocuments().map(
+      (document): SiteRoute => ({
+        path: `/legal/${document.slug}`,
+        changeFrequency: "yearly",
+        priority: 0.3,
+        lastModified: document.current.effectiveDate,
+      }),
+    ),
+  ];
+}
+
+/**
+ * Content is rebuilt on every deploy, so the build time is when it last
+ * changed.
+ */
+export function lastModified(): Date {
+  const builtAt = new Date(buildInfo.builtAt);
+  return Number.isNaN(builtAt.getTime()) ? new Date() : builtAt;
+}
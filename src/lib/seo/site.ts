@@ -0,0 +1,53 @@
+import deploymentConfig from "../../../.deployment-config.json";
+import { buildInfo, type DeployEnvironment } from "@/lib/build-info";
+
+/**
+ * Site-wide identity used by metadata, structured data and feeds.
+ * The canonical origin comes from `.deployment-config.json` so preview
+ * deployments still point search engines at production.
+ */
+export const SITE = {
+  name: "IntensityMagic",
+  legalName: "Intensity Ventures",
+  url: deploymentConfig.vercel.productionUrl.replace(/\/$/, ""),
+  title: "IntensityMagic | Software by End Users for End Users",
+  tagline: "Software by End Users for End Users",
+  description:
+    "IntensityMagic builds intuitive software by end users for end users, including MedicareMagic and AuthorMagic.",
+  locale: "en_US",
+  /** Brand gradient, matching `from-blue-600 to-purple-600`. */
+  colors: { from: "#2563eb", to: "#9333ea" },
+} as const;
+
+/**
+ * Resolve a site-relative path against the production origin.
+ */
+export function absoluteUrl(path = "/"): string {
+  return new URL(path, `${SITE.url}/`).toString();
+}
+
+/**
+ * Which deployment this build is for. Vercel's environment wins; otherwise
+ * the branch is matched against the branches in `.deployment-config.json`.
+ */
+export function getDeployEnvironment(): DeployEnvironment {
+  if (buildInfo.environment !== "development") {
+    return buildInfo.environment;
+  }
+
+  const { environments } = deploymentConfig;
+  if (buildInfo.branch === environments.production.branch) {
+    return "production";
+  }
+  if (buildInfo.branch === environments.preview.branch) {
+    return "preview";
+  }
+  return "development";
+}
+
+/**
+ * Only production should be crawled and indexed.
+ */
+export function isIndexable(): boolean {
+  return getDeployEnvironment() === "production";
+}
@@ -0,0 +1,78 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Confirmation email delivery for double opt-in.
+ *
+ * Like contact delivery, the default sender drops each message into a local
+ * outbox instead of sending mail, so the confirm link can be copied from
+ * `.outbox/subscribe` during development.
+ *
+ * Production needs a real mailer registered with `setConfirmationSender` in
+ * `src/instrumentation.ts`; the outbox is only used there when
+ * `SUBSCRIBE_OUTBOX_DIR` points at a writable directory. Otherwise the server
+ * refuses to start.
+ */
+
+export interface ConfirmationMessage {
+  /** "signup" for a new subscription, "update" to add products to one. */
+  kind: "signup" | "update";
+  to: string;
+  subscriberId: string;
+  confirmUrl: string;
+  /** The products the link confirms. */
+  products: string[];
+  requestId: string;
+}
+
+export interface ConfirmationSender {
+  readonly name: string;
+  send(message: ConfirmationMessage): Promise<void>;
+}
+
+/**
+ * Writes one `<timestamp>-<subscriberId>.json` file per message.
+ * Defaults to `SUBSCRIBE_OUTBOX_DIR`, then `.outbox/subscribe`.
+ */
+export function createOutboxConfirmationSender(
+  directory = process.env.SUBSCRIBE_OUTBOX_DIR ??
+    path.join(process.cwd(), ".outbox", "subscribe"),
+): ConfirmationSender {
+  return {
+    name: "file-outbox",
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      await writeFile(
+        path.join(directory, `${timestamp}-${message.subscriberId}.json`),
+        `${JSON.stringify(message, null, 2)}\n`,
+        "utf8",
+      );
+    },
+  };
+}
+
+// Shared with `src/instrumentation.ts` through `globalThis`; see the note in
+// the contact delivery module.
+const registry = globalThis as typeof globalThis & {
+  confirmationSender?: ConfirmationSender;
+};
+
+export function getConfirmationSender(): ConfirmationSender {
+  if (!registry.confirmationSender) {
+    if (
+      process.env.NODE_ENV === "production" &&
+      !process.env.SUBSCRIBE_OUTBOX_DIR
+    ) {
+      throw new Error(
+        "No confirmation sender is configured: register one with setConfirmationSender in src/instrumentation.ts, or set SUBSCRIBE_OUTBOX_DIR to a writable directory",
+      );
+    }
+    registry.confirmationSender = createOutboxConfirmationSender();
+  }
+  return registry.confirmationSender;
+}
+
+export function setConfirmationSender(sender: ConfirmationSender): void {
+  registry.confirmationSender = sender;
+}
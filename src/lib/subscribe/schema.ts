@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/**
+ * Waitlist signup schema, shared by the signup dialog and `/api/subscribe`.
+ * Product slugs are checked against the registry on the server so the
+ * registry stays out of the client bundle.
+ */
+export const SubscribeRequestSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+  products: z
+    .array(z.string().trim().min(1))
+    .min(1, "Choose at least one product")
+    .max(20, "Too many products selected"),
+});
+
+export type SubscribeRequest = z.infer<typeof SubscribeRequestSchema>;
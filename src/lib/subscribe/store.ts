@@ -0,0 +1,150 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Subscriber storage.
+ *
+ * `/api/subscribe` and its confirm route only talk to the active store. In
+ * development the default keeps subscribers in a local JSON file so signups
+ * survive dev server restarts; the in-memory store suits tests and throwaway
+ * runs.
+ *
+ * Production needs a database or mailing-list provider registered with
+ * `setSubscriberStore` in `src/instrumentation.ts`. The JSON file is only used
+ * there when `SUBSCRIBERS_FILE` points at a writable path, and it is only
+ * safe with a single server process. Otherwise the server refuses to start.
+ */
+
+export type SubscriberStatus = "pending" | "confirmed";
+
+export interface Subscriber {
+  id: string;
+  email: string;
+  products: string[];
+  status: SubscriberStatus;
+  createdAt: string;
+  updatedAt: string;
+  confirmedAt?: string;
+}
+
+export interface SubscriberStore {
+  readonly name: string;
+  findById(id: string): Promise<Subscriber | undefined>;
+  findByEmail(email: string): Promise<Subscriber | undefined>;
+  save(subscriber: Subscriber): Promise<void>;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function createMemorySubscriberStore(): SubscriberStore {
+  const subscribers = new Map<string, Subscriber>();
+
+  return {
+    name: "memory",
+    async findById(id) {
+      return subscribers.get(id);
+    },
+    async findByEmail(email) {
+      const wanted = normalizeEmail(email);
+      for (const subscriber of subscribers.values()) {
+        if (normalizeEmail(subscriber.email) === wanted) {
+          return subscriber;
+        }
+      }
+      return undefined;
+    },
+    async save(subscriber) {
+      subscribers.set(subscriber.id, subscriber);
+    },
+  };
+}
+
+/**
+ * Keeps every subscriber in one JSON array. Fine for local runs; saves run
+ * one at a time and write through a temp file, so neither concurrent saves
+ * nor a crash can lose data. Another process writing the same file can.
+ * Defaults to `SUBSCRIBERS_FILE`, then `.data/subscribers.json`.
+ */
+export function createJsonFileSubscriberStore(
+  filePath = process.env.SUBSCRIBERS_FILE ??
+    path.join(process.cwd(), ".data", "subscribers.json"),
+): SubscriberStore {
+  let lastSave: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<Subscriber[]> {
+    try {
+      return JSON.parse(await readFile(filePath, "utf8")) as Subscriber[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function writeAll(subscribers: Subscriber[]): Promise<void> {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(
+      tempPath,
+      `${JSON.stringify(subscribers, null, 2)}\n`,
+      "utf8",
+    );
+    await rename(tempPath, filePath);
+  }
+
+  return {
+    name: "json-file",
+    async findById(id) {
+      return (await readAll()).find((subscriber) => subscriber.id === id);
+    },
+    async findByEmail(email) {
+      const wanted = normalizeEmail(email);
+      return (await readAll()).find(
+        (subscriber) => normalizeEmail(subscriber.email) === wanted,
+      );
+    },
+    save(subscriber) {
+      const saved = lastSave.then(async () => {
+        const subscribers = await readAll();
+        const index = subscribers.findIndex(({ id }) => id === subscriber.id);
+        if (index === -1) {
+          subscribers.push(subscriber);
+        } else {
+          subscribers[index] = subscriber;
+        }
+        await writeAll(subscribers);
+      });
+      lastSave = saved.catch(() => undefined);
+      return saved;
+    },
+  };
+}
+
+// Shared with `src/instrumentation.ts` through `globalThis`; see the note in
+// the contact delivery module.
+const registry = globalThis as typeof globalThis & {
+  subscriberStore?: SubscriberStore;
+};
+
+export function getSubscriberStore(): SubscriberStore {
+  if (!registry.subscriberStore) {
+    if (
+      process.env.NODE_ENV === "production" &&
+      !process.env.SUBSCRIBERS_FILE
+    ) {
+      throw new Error(
+        "No subscriber store is configured: register one with setSubscriberStore in src/instrumentation.ts, or set SUBSCRIBERS_FILE to a writable path",
+      );
+    }
+    registry.subscriberStore = createJsonFileSubscriberStore();
+  }
+  return registry.subscriberStore;
+}
+
+export function setSubscriberStore(store: SubscriberStore): void {
+  registry.subscriberStore = store;
+}
@@ -0,0 +1,102 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Signed, expiring confirmation tokens for double opt-in.
+ *
+ * A token is `<payload>.<signature>`, both base64url. The payload carries the
+ * subscriber id, the products the link confirms and an expiry; the signature
+ * is an HMAC-SHA256 over the payload with `SUBSCRIBE_TOKEN_SECRET`. Nothing
+ * is stored server-side, so a change to a confirmed subscription waits in
+ * the token until its link is opened.
+ */
+
+export const CONFIRMATION_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+interface TokenPayload {
+  sub: string;
+  products: string[];
+  exp: number;
+}
+
+export type TokenVerification =
+  | { valid: true; subscriberId: string; products: string[] }
+  | { valid: false; reason: "invalid" | "expired" };
+
+let devSecret: string | null = null;
+
+/**
+ * Production must configure a secret. Elsewhere a per-process secret is
+ * generated, so links stop working after a restart.
+ */
+function getSecret(): string {
+  const secret = process.env.SUBSCRIBE_TOKEN_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SUBSCRIBE_TOKEN_SECRET is not set");
+  }
+  devSecret ??= randomBytes(32).toString("hex");
+  return devSecret;
+}
+
+/**
+ * Throws when production has no secret. Called at startup, so a missing
+ * secret stops the server before a subscriber is saved with a link that can
+ * never be signed.
+ */
+export function assertTokenSecret(): void {
+  getSecret();
+}
+
+function sign(payload: string): Buffer {
+  return createHmac("sha256", getSecret()).update(payload).digest();
+}
+
+export function createConfirmationToken(
+  subscriberId: string,
+  products: string[],
+  ttlMs = CONFIRMATION_TOKEN_TTL_MS,
+): string {
+  const payload: TokenPayload = {
+    sub: subscriberId,
+    products,
+    exp: Date.now() + ttlMs,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded).toString("base64url")}`;
+}
+
+export function verifyConfirmationToken(token: string): TokenVerification {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  let payload: Partial<TokenPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return { valid: false, reason: "invalid" };
+  }
+
+  if (
+    typeof payload.sub !== "string" ||
+    typeof payload.exp !== "number" ||
+    !Array.isArray(payload.products) ||
+    !payload.products.every((slug) => typeof slug === "string")
+  ) {
+    return { valid: false, reason: "invalid" };
+  }
+  if (payload.exp < Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+
+  return { valid: true, subscriberId: payload.sub, products: payload.products };
+}
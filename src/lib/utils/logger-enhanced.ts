@@ -0,0 +1,306 @@
+/**
+ * Enhanced structured logger.
+ *
+ * - Levels filtered by `LOG_LEVEL` (debug | info | warn | error, default info)
+ * - `context` and `requestId` lifted out of the data for searchable prefixes
+ * - Pretty output in development, one JSON object per line in production
+ * - PII, tokens and keys redacted before any sink sees the entry
+ * - Pluggable sinks: console by default, in-memory for tests
+ *
+ * See docs/standards/LOGGING_GUIDE.md. Has no Node-only imports so it can run
+ * in middleware and edge routes.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Specialised helpers tag entries so dashboards can filter on them.
+ */
+export type LogCategory = "analytics" | "cache" | "performance";
+
+export interface LogData {
+  context?: string;
+  requestId?: string;
+  error?: Error | string;
+  [key: string]: unknown;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  context?: string;
+  requestId?: string;
+  category?: LogCategory;
+  error?: SerializedError;
+  data?: Record<string, unknown>;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  sinks?: LogSink[];
+  /** Redact PII, tokens and keys. Defaults to true. */
+  redact?: boolean;
+}
+
+// ============================================================================
+// Sanitization
+// ============================================================================
+
+const REDACTED = "[REDACTED]";
+
+const SENSITIVE_KEY_PATTERN =
+  /pass(word|phrase)?|secret|token|api[-_]?key|private[-_]?key|access[-_]?key|authorization|cookie|credential|ssn/i;
+
+const EMAIL_PATTERN =
+  /\b([A-Za-z0-9._%+-]{1,2})[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})\b/g;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const PHONE_PATTERN = /\b(\d{3})[-.\s]?\d{3}[-.\s]?(\d{4})\b/g;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[\w\-.~+/=]+/gi;
+const API_KEY_PATTERN =
+  /\b(?:sk|pk|rk)_(?:live|test)_[\w]+|\bgh[pousr]_[\w]{20,}|\bxox[abpr]-[\w-]+|\bAKIA[0-9A-Z]{16}\b/g;
+
+export function sanitizeString(value: string): string {
+  return value
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(BEARER_PATTERN, `$1 ${REDACTED}`)
+    .replace(API_KEY_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, "$1***@$2")
+    .replace(SSN_PATTERN, "***-**-****")
+    .replace(PHONE_PATTERN, "$1***$2");
+}
+
+export function sanitize(value: unknown, depth = 0): unknown {
+  if (depth > 8) {
+    return "[Truncated]";
+  }
+  if (typeof value === "string") {
+    return sanitizeString(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, depth + 1));
+  }
+  if (value instanceof Error) {
+    return serializeError(value, true);
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEY_PATTERN.test(key)
+        ? REDACTED
+        : sanitize(nested, depth + 1);
+    }
+    return result;
+  }
+  return value;
+}
+
+function serializeError(error: Error, redact: boolean): SerializedError {
+  const clean = (text: string) => (redact ? sanitizeString(text) : text);
+  return {
+    name: error.name,
+    message: clean(error.message),
+    ...(error.stack && { stack: clean(error.stack) }),
+  };
+}
+
+// ============================================================================
+// Sinks
+// ============================================================================
+
+const CONSOLE_METHODS: Record<LogLevel, "debug" | "info" | "warn" | "error"> = {
+  debug: "debug",
+  info: "info",
+  warn: "warn",
+  error: "error",
+};
+
+export function formatPretty(entry: LogEntry): string {
+  const prefix = [
+    `[${entry.timestamp}]`,
+    `[${entry.level.toUpperCase()}]`,
+    entry.context && `[${entry.context}]`,
+    entry.requestId && `[${entry.requestId}]`,
+  ]
+    .filter(Boolean)
+    .join("");
+
+  const details: Record<string, unknown> = {
+    ...(entry.category && { category: entry.category }),
+    ...entry.data,
+    ...(entry.error && { error: entry.error }),
+  };
+
+  return Object.keys(details).length > 0
+    ? `${prefix} ${entry.message}\n${JSON.stringify(details, null, 2)}`
+    : `${prefix} ${entry.message}`;
+}
+
+export function createConsoleSink(
+  format: "pretty" | "json" = process.env.NODE_ENV === "production"
+    ? "json"
+    : "pretty",
+): LogSink {
+  return {
+    write(entry) {
+      const line =
+        format === "json" ? JSON.stringify(entry) : formatPretty(entry);
+      console[CONSOLE_METHODS[entry.level]](line);
+    },
+  };
+}
+
+export interface MemorySink extends LogSink {
+  readonly entries: LogEntry[];
+  clear(): void;
+}
+
+/**
+ * Collects entries in memory, for asserting on logs in tests.
+ */
+export function createMemorySink(): MemorySink {
+  const entries: LogEntry[] = [];
+  return {
+    entries,
+    write(entry) {
+      entries.push(entry);
+    },
+    clear() {
+      entries.length = 0;
+    },
+  };
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+function resolveLevel(value: string | undefined): LogLevel {
+  const normalized = value?.toLowerCase();
+  return LOG_LEVELS.find((level) => level === normalized) ?? "info";
+}
+
+export class Logger {
+  private level: LogLevel;
+  private sinks: LogSink[];
+  private readonly redact: boolean;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? resolveLevel(process.env.LOG_LEVEL);
+    this.sinks = options.sinks ?? [createConsoleSink()];
+    this.redact = options.redact ?? true;
+  }
+
+  /**
+   * Format: `req_1705315800000_abc123xyz`.
+   */
+  generateRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  setSinks(sinks: LogSink[]): void {
+    this.sinks = sinks;
+  }
+
+  addSink(sink: LogSink): void {
+    this.sinks.push(sink);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  debug(message: string, data?: LogData): void {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, data?: LogData): void {
+    this.log("info", message, data);
+  }
+
+  warn(message: string, data?: LogData): void {
+    this.log("warn", message, data);
+  }
+
+  error(message: string, data?: LogData): void {
+    this.log("error", message, data);
+  }
+
+  analytics(event: string, data?: LogData): void {
+    this.log("info", event, data, "analytics");
+  }
+
+  cache(event: string, data?: LogData): void {
+    this.log("debug", event, data, "cache");
+  }
+
+  performance(metric: string, data?: LogData): void {
+    this.log("info", metric, data, "performance");
+  }
+
+  private log(
+    level: LogLevel,
+    message: string,
+    data: LogData = {},
+    category?: LogCategory,
+  ): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const { context, requestId, error, ...rest } = data;
+    const payload = this.redact
+      ? (sanitize(rest) as Record<string, unknown>)
+      : rest;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: this.redact ? sanitizeString(message) : message,
+      ...(context && { context }),
+      ...(requestId && { requestId }),
+      ...(category && { category }),
+      ...(error && {
+        error:
+          error instanceof Error
+            ? serializeError(error, this.redact)
+            : {
+                name: "Error",
+                message: this.redact ? sanitizeString(error) : error,
+              },
+      }),
+      ...(Object.keys(payload).length > 0 && { data: payload }),
+    };
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A failing sink must never take down the request being logged.
+      }
+    }
+  }
+}
+
+export function createLogger(options?: LoggerOptions): Logger {
+  return new Logger(options);
+}
+
+export const logger = createLogger();
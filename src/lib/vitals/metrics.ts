@@ -0,0 +1,23 @@
+/**
+ * Web Vitals reported to `/api/vitals`. Kept free of zod so the client
+ * reporter stays small.
+ */
+
+export const WEB_VITAL_NAMES = ["LCP", "CLS", "INP", "TTFB", "FCP"] as const;
+export type WebVitalName = (typeof WEB_VITAL_NAMES)[number];
+
+export const DEVICE_CLASSES = ["mobile", "tablet", "desktop"] as const;
+export type VitalsDeviceClass = (typeof DEVICE_CLASSES)[number];
+
+export function isWebVitalName(name: string): name is WebVitalName {
+  return (WEB_VITAL_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * By viewport width, matching Tailwind's `md` and `lg` breakpoints.
+ */
+export function viewportDeviceClass(width: number): VitalsDeviceClass {
+  if (width < 768) return "mobile";
+  if (width < 1024) return "tablet";
+  return "desktop";
+}
@@ -0,0 +1,17 @@
+import { unlocalizePath } from "@/lib/i18n/paths";
+import { getSiteRoutes } from "@/lib/seo/routes";
+
+let knownRoutes: Set<string> | null = null;
+
+/**
+ * The route a sample is filed under: the path without its locale prefix, so
+ * every language of a page aggregates together. Only pages in the sitemap
+ * are tracked; anything else returns null and is dropped, so made-up paths
+ * can't fill the store. Content only changes on deploy, so the route list is
+ * read once per instance.
+ */
+export function vitalsRoute(pathname: string): string | null {
+  knownRoutes ??= new Set(getSiteRoutes().map((route) => route.path));
+  const route = unlocalizePath(pathname);
+  return knownRoutes.has(route) ? route : null;
+}
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { DEVICE_CLASSES, WEB_VITAL_NAMES } from "./metrics";
+
+/**
+ * Web Vitals samples sent by `<WebVitals />` to `/api/vitals`.
+ */
+export const WebVitalSampleSchema = z.object({
+  name: z.enum(WEB_VITAL_NAMES),
+  value: z.number().finite().nonnegative(),
+  rating: z.enum(["good", "needs-improvement", "poor"]).optional(),
+  route: z.string().startsWith("/").max(300),
+  deviceClass: z.enum(DEVICE_CLASSES),
+});
+
+export const WebVitalsBatchSchema = z.object({
+  metrics: z.array(WebVitalSampleSchema).min(1).max(10),
+});
+
+export type WebVitalSample = z.infer<typeof WebVitalSampleSchema>;
@@ -0,0 +1,141 @@
+import type { WebVitalSample } from "./schema";
+import type { VitalsDeviceClass, WebVitalName } from "./metrics";
+
+/**
+ * Web Vitals aggregation.
+ *
+ * The default store keeps the most recent samples per route, device class
+ * and metric in memory and computes percentiles on read. When it holds
+ * `maxKeys` keys, the least recently reported one is evicted to make room.
+ * It is per instance and resets on deploy; swap in a shared store with
+ * `setVitalsStore` for long-term numbers.
+ */
+
+export interface VitalPercentiles {
+  count: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export type RouteVitals = Partial<Record<WebVitalName, VitalPercentiles>>;
+
+export interface VitalsAggregates {
+  /** Set when the aggregates were filtered to one device class. */
+  deviceClass?: VitalsDeviceClass;
+  routes: Record<string, RouteVitals>;
+}
+
+export interface VitalsStore {
+  readonly name: string;
+  record(samples: WebVitalSample[]): Promise<void>;
+  aggregates(filter?: {
+    deviceClass?: VitalsDeviceClass;
+  }): Promise<VitalsAggregates>;
+}
+
+/**
+ * Nearest-rank percentile of an ascending array.
+ */
+export function percentile(sorted: number[], p: number): number {
+  const index = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[index] ?? 0;
+}
+
+/**
+ * CLS is a unitless score; everything else is milliseconds.
+ */
+function round(name: WebVitalName, value: number): number {
+  return name === "CLS" ? Math.round(value * 1000) / 1000 : Math.round(value);
+}
+
+export function summarize(
+  name: WebVitalName,
+  values: number[],
+): VitalPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: round(name, percentile(sorted, 50)),
+    p75: round(name, percentile(sorted, 75)),
+    p95: round(name, percentile(sorted, 95)),
+  };
+}
+
+export function createMemoryVitalsStore({
+  maxSamplesPerKey = 500,
+  maxKeys = 1_000,
+}: { maxSamplesPerKey?: number; maxKeys?: number } = {}): VitalsStore {
+  // [route, deviceClass, metric] as JSON -> most recent values, least
+  // recently reported key first
+  const samples = new Map<string, number[]>();
+
+  const keyOf = (sample: WebVitalSample) =>
+    JSON.stringify([sample.route, sample.deviceClass, sample.name]);
+
+  return {
+    name: "memory",
+    async record(batch) {
+      for (const sample of batch) {
+        const key = keyOf(sample);
+        const values = samples.get(key) ?? [];
+        samples.delete(key);
+        if (samples.size >= maxKeys) {
+          const oldest = samples.keys().next().value;
+          if (oldest !== undefined) {
+            samples.delete(oldest);
+          }
+        }
+        samples.set(key, values);
+        values.push(sample.value);
+        if (values.length > maxSamplesPerKey) {
+          values.shift();
+        }
+      }
+    },
+    async aggregates(filter = {}) {
+      const grouped = new Map<string, Map<WebVitalName, number[]>>();
+
+      for (const [key, values] of samples) {
+        const [route, deviceClass, name] = JSON.parse(key) as [
+          string,
+          VitalsDeviceClass,
+          WebVitalName,
+        ];
+        if (filter.deviceClass && filter.deviceClass !== deviceClass) {
+          continue;
+        }
+        const metrics = grouped.get(route) ?? new Map();
+        metrics.set(name, [...(metrics.get(name) ?? []), ...values]);
+        grouped.set(route, metrics);
+      }
+
+      const routes: Record<string, RouteVitals> = {};
+      for (const [route, metrics] of [...grouped].sort(([a], [b]) =>
+        a.localeCompare(b),
+      )) {
+        routes[route] = Object.fromEntries(
+          [...metrics].map(([name, values]) => [name, summarize(name, values)]),
+        );
+      }
+
+      return {
+        ...(filter.deviceClass && { deviceClass: filter.deviceClass }),
+        routes,
+      };
+    },
+  };
+}
+
+let activeStore: VitalsStore | null = null;
+
+export function getVitalsStore(): VitalsStore {
+  if (!activeStore) {
+    activeStore = createMemoryVitalsStore();
+  }
+  return activeStore;
+}
+
+export function setVitalsStore(store: VitalsStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,88 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { LOCALE_COOKIE } from "@/lib/i18n/config";
+import { negotiateLocale } from "@/lib/i18n/negotiate";
+import { localeFromPathname, localizePath } from "@/lib/i18n/paths";
+import {
+  CSP_HEADER,
+  CSP_REPORT_ONLY_HEADER,
+  buildContentSecurityPolicy,
+  buildReportingEndpoints,
+  buildSecurityHeaders,
+} from "@/lib/security/headers";
+
+const LOCALE_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Pages live under `/[locale]`; API routes, metadata routes and anything
+ * that looks like a file are served as they are.
+ */
+function isLocalizedRoute(pathname: string): boolean {
+  return !(
+    pathname.startsWith("/api/") ||
+    pathname.startsWith("/opengraph-image") ||
+    /\.[a-z0-9]+$/i.test(pathname)
+  );
+}
+
+/**
+ * Locale routing and security headers.
+ *
+ * Pages requested without a locale prefix are redirected to the locale
+ * remembered in a cookie, or the best `Accept-Language` match. Prefixed
+ * requests refresh the cookie.
+ *
+ * Set `CSP_REPORT_ONLY=true` to send the policy as
+ * `Content-Security-Policy-Report-Only` while trying out a change;
+ * violations are collected at `/api/csp-report` either way.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const locale = localeFromPathname(pathname);
+
+  if (!locale && isLocalizedRoute(pathname)) {
+    const url = request.nextUrl.clone();
+    url.pathname = localizePath(
+      pathname,
+      negotiateLocale({
+        cookie: request.cookies.get(LOCALE_COOKIE)?.value,
+        acceptLanguage: request.headers.get("accept-language"),
+      }),
+    );
+    const redirect = NextResponse.redirect(url);
+    redirect.headers.set("Vary", "Accept-Language, Cookie");
+    return redirect;
+  }
+
+  const isDev = process.env.NODE_ENV === "development";
+  const reportOnly = process.env.CSP_REPORT_ONLY === "true";
+  const cspHeader = reportOnly ? CSP_REPORT_ONLY_HEADER : CSP_HEADER;
+
+  const response = NextResponse.next();
+
+  response.headers.set(cspHeader, buildContentSecurityPolicy({ isDev }));
+  response.headers.set(
+    "Reporting-Endpoints",
+    buildReportingEndpoints(request.nextUrl.origin),
+  );
+  for (const [name, value] of Object.entries(buildSecurityHeaders({ isDev }))) {
+    response.headers.set(name, value);
+  }
+
+  if (locale && request.cookies.get(LOCALE_COOKIE)?.value !== locale) {
+    response.cookies.set(LOCALE_COOKIE, locale, {
+      path: "/",
+      maxAge: LOCALE_COOKIE_MAX_AGE_SECONDS,
+      sameSite: "lax",
+      secure: !isDev,
+    });
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: [
+    // Everything except build assets, which are served with their own headers.
+    "/((?!_next/static|_next/image|favicon.ico).*)",
+  ],
+};